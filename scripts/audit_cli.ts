@@ -0,0 +1,175 @@
+/**
+ * Audit log CLI
+ * Shows why an account holds its labels, from the decisions recorded in
+ * the audit log.
+ *
+ * Usage:
+ *   deno task audit <did> [--from=<date>] [--to=<date>] [--days=N] [--json]
+ *                                      Show the decisions about one user
+ *   deno task audit:export [--from=<date>] [--to=<date>] [--days=N]
+ *                                      Export all decisions as JSON
+ *   deno task audit:prune              Delete entries older than
+ *                                      AUDIT_RETENTION_DAYS
+ *
+ * Ranges end now and span 30 days unless given otherwise.
+ */
+import * as log from '@std/log';
+import { closeConfig, CONFIG, initializeConfig } from '../src/config.ts';
+import { initLogging } from '../src/logger.ts';
+import { AuditEntry, AuditLog } from '../src/audit.ts';
+import { SubjectDidSchema } from '../src/schemas.ts';
+import { formatTable, parseDate } from './format.ts';
+
+await initLogging();
+const logger = log.getLogger();
+
+/** Days shown when no range is given */
+const DEFAULT_DAYS = 30;
+
+const kv = await Deno.openKv();
+const audit = new AuditLog(kv);
+
+/**
+ * Describes the label change of an entry, e.g. "red -> blue"
+ */
+function describeChange(entry: AuditEntry): string {
+	if (entry.previous === null || entry.current === null) {
+		return '';
+	}
+	const previous = entry.previous.join(', ') || '(none)';
+	const current = entry.current.join(', ') || '(none)';
+	return previous === current ? previous : `${previous} -> ${current}`;
+}
+
+/**
+ * Shows the decisions about one user in a time range
+ */
+async function showSubject(
+	subject: string,
+	from: Date,
+	to: Date,
+	json: boolean,
+): Promise<void> {
+	const entries = await audit.query(SubjectDidSchema.parse(subject), from, to);
+
+	if (json) {
+		console.log(JSON.stringify(entries, null, 2));
+		return;
+	}
+	if (entries.length === 0) {
+		console.log(
+			`No decisions about ${subject} from ${from.toISOString()} to ${to.toISOString()}`,
+		);
+		return;
+	}
+	console.log(formatTable(
+		['Time', 'Actor', 'Outcome', 'Rule', 'Labels', 'Source'],
+		entries.map((entry) => [
+			entry.at,
+			entry.actor,
+			entry.outcome,
+			entry.rule ?? '',
+			describeChange(entry),
+			entry.source
+				? `${entry.source.operation} ${entry.source.uri}` +
+					(entry.source.timeUs ? ` @${entry.source.timeUs}` : '')
+				: '',
+		]),
+	));
+}
+
+/**
+ * Writes all decisions in a time range to stdout as a JSON array
+ */
+async function exportEntries(from: Date, to: Date): Promise<void> {
+	const encoder = new TextEncoder();
+	let count = 0;
+	await Deno.stdout.write(encoder.encode('['));
+	for await (const entry of audit.export(from, to)) {
+		await Deno.stdout.write(
+			encoder.encode(`${count++ > 0 ? ',' : ''}\n${JSON.stringify(entry)}`),
+		);
+	}
+	await Deno.stdout.write(encoder.encode('\n]\n'));
+	logger.info(`Exported ${count} audit entries`);
+}
+
+/**
+ * Deletes entries older than the configured retention period
+ */
+async function prune(): Promise<void> {
+	await initializeConfig();
+	try {
+		const pruned = await audit.prune(CONFIG.AUDIT_RETENTION_DAYS);
+		logger.info(
+			`Pruned ${pruned} entries older than ${CONFIG.AUDIT_RETENTION_DAYS} days`,
+		);
+	} finally {
+		await closeConfig();
+	}
+}
+
+/**
+ * Shows CLI help information
+ */
+function showHelp(): void {
+	console.log(
+		'Usage:\n' +
+			'  deno task audit <did> [--from=<date>] [--to=<date>] [--days=N] [--json]\n' +
+			'                                 Show the label decisions about a user\n' +
+			'  deno task audit:export [--from=<date>] [--to=<date>] [--days=N]\n' +
+			'                                 Export all decisions as JSON\n' +
+			'  deno task audit:prune          Delete expired audit entries\n' +
+			`Ranges span the last ${DEFAULT_DAYS} days by default.\n`,
+	);
+}
+
+/**
+ * Main CLI function
+ */
+async function main() {
+	const command = Deno.args[0];
+	const args = Deno.args.slice(1).filter((arg) => !arg.startsWith('--'));
+	const flags = Deno.args.slice(1).filter((arg) => arg.startsWith('--'));
+	const flag = (name: string) =>
+		flags.find((flag) => flag.startsWith(`--${name}=`))
+			?.slice(`--${name}=`.length);
+	const days = flag('days');
+
+	try {
+		if (days !== undefined && !(Number(days) > 0)) {
+			throw new Error(`Invalid number of days: ${days}`);
+		}
+		const to = flag('to') ? parseDate(flag('to')!) : new Date();
+		const from = flag('from') ? parseDate(flag('from')!) : new Date(
+			to.getTime() - Number(days ?? DEFAULT_DAYS) * 24 * 60 * 60 * 1000,
+		);
+
+		switch (command) {
+			case 'show':
+				if (!args[0]) {
+					showHelp();
+					break;
+				}
+				await showSubject(args[0], from, to, flags.includes('--json'));
+				break;
+			case 'export':
+				await exportEntries(from, to);
+				break;
+			case 'prune':
+				await prune();
+				break;
+			default:
+				showHelp();
+		}
+	} catch (error) {
+		logger.error(
+			`Error: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		Deno.exit(1);
+	} finally {
+		kv.close();
+	}
+}
+
+await main();
@@ -0,0 +1,35 @@
+/**
+ * Output formatting and flag parsing shared by the CLI scripts
+ */
+
+/**
+ * Formats rows as a table with left-aligned text and right-aligned numbers
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+	const widths = headers.map((header, i) =>
+		Math.max(header.length, ...rows.map((row) => row[i].length))
+	);
+	const format = (cells: string[]) =>
+		cells.map((cell, i) =>
+			/^[-+\d.,%]+$/.test(cell) && i > 0
+				? cell.padStart(widths[i])
+				: cell.padEnd(widths[i])
+		).join('  ');
+	return [
+		format(headers),
+		widths.map((width) => '-'.repeat(width)).join('  '),
+		...rows.map(format),
+	].join('\n');
+}
+
+/**
+ * Parses a date flag value
+ * @throws {Error} If the value is not a valid date
+ */
+export function parseDate(value: string): Date {
+	const date = new Date(value);
+	if (isNaN(date.getTime())) {
+		throw new Error(`Invalid date: ${value}`);
+	}
+	return date;
+}
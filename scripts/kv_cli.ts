@@ -1,13 +1,15 @@
 /**
  * CLI utility for managing the Deno KV store
- * Provides commands for configuration and metrics management.
+ * Provides commands for configuration, label registry and metrics management.
  */
 import { ConfigSchema } from '../src/schemas.ts';
+import { LabelRegistry } from '../src/registry.ts';
 import { z } from 'zod';
 import * as log from '@std/log';
 
 const kv = await Deno.openKv();
 const logger = log.getLogger();
+const registry = new LabelRegistry(kv);
 
 /**
  * Validates a key-value pair against schema
@@ -85,10 +87,15 @@ async function getValue(key: Deno.KvKey): Promise<void> {
  * @param value Value to store
  */
 async function setValue(key: Deno.KvKey, value: unknown): Promise<void> {
-	// Convert string number to actual number before validation
-	const parsedValue = typeof value === 'string' && !isNaN(Number(value))
-		? Number(value)
-		: value;
+	// Convert string number, boolean or JSON to actual value before validation
+	let parsedValue = value;
+	if (typeof value === 'string' && !isNaN(Number(value))) {
+		parsedValue = Number(value);
+	} else if (value === 'true' || value === 'false') {
+		parsedValue = value === 'true';
+	} else if (typeof value === 'string' && /^[[{]/.test(value)) {
+		parsedValue = JSON.parse(value);
+	}
 
 	validateKeyValue(key, parsedValue);
 	await kv.set(key, parsedValue);
@@ -117,6 +124,69 @@ async function wipeStore(): Promise<void> {
 	logger.info('KV store wiped');
 }
 
+/**
+ * Lists all label registry entries
+ */
+async function listRegistry(): Promise<void> {
+	const entries = await registry.list();
+	if (entries.length === 0) {
+		logger.info('Label registry is empty');
+		return;
+	}
+	for (const entry of entries) {
+		if (entry.type === 'label') {
+			logger.info(
+				`Label post ${entry.rkey}: ${entry.identifier} (category ${entry.category})`,
+			);
+		} else {
+			logger.info(
+				`Removal post ${entry.rkey}: ${
+					entry.category ? `category ${entry.category}` : 'all labels'
+				}`,
+			);
+		}
+	}
+}
+
+/**
+ * Creates or replaces a label post in the registry
+ * @param rkey Record key of the label post
+ * @param identifier Label identifier applied by the post
+ * @param category Category of the label
+ * @param definition Label value definition as JSON, or the existing one if omitted
+ */
+async function setRegistryLabel(
+	rkey: string,
+	identifier: string,
+	category: string,
+	definition?: string,
+): Promise<void> {
+	const existing = await registry.get(rkey);
+	await registry.put({
+		type: 'label',
+		rkey,
+		identifier,
+		category,
+		definition: definition !== undefined
+			? JSON.parse(definition)
+			: existing?.type === 'label'
+			? existing.definition
+			: undefined,
+	});
+}
+
+/**
+ * Creates or replaces a removal post in the registry
+ * @param rkey Record key of the removal post
+ * @param category Category to limit removal to, or all labels if omitted
+ */
+async function setRegistryRemoval(
+	rkey: string,
+	category?: string,
+): Promise<void> {
+	await registry.put({ type: 'removal', rkey, category });
+}
+
 /**
  * Masks sensitive values for display
  * @param value Value to mask
@@ -138,8 +208,22 @@ function showHelp(): void {
 			'  deno task kv:set <KEY> <value> Set value for a key\n' +
 			'  deno task kv:delete <KEY>      Delete a key\n' +
 			'  deno task kv:wipe              Delete all data\n' +
+			'  deno task registry:list        List label registry entries\n' +
+			'  deno task registry:set <RKEY> <identifier> <category> [definition]\n' +
+			'                                 Set a label post, with an optional\n' +
+			'                                 label value definition as JSON\n' +
+			'  deno task registry:removal <RKEY> [category]\n' +
+			'                                 Set a removal post\n' +
+			'  deno task registry:delete <RKEY>\n' +
+			'                                 Delete a registry entry\n' +
+			'  deno task registry:seed        Seed the registry from labels.ts\n' +
 			'  deno task metrics              Show metrics data\n' +
-			'  deno task metrics:clear        Clear metrics data\n',
+			'  deno task metrics:history      Show daily metrics history\n' +
+			'  deno task metrics:reset        Reset metrics data\n' +
+			'  deno task metrics:reconcile    Compare metrics with the label database\n' +
+			'  deno task metrics:activity     Show label activity over time\n' +
+			'  deno task label <command>      Apply, negate or inspect user labels\n' +
+			'  deno task audit <did>          Show the label decisions about a user\n',
 	);
 }
 
@@ -167,6 +251,23 @@ async function main() {
 			case 'wipe':
 				await wipeStore();
 				break;
+			case 'registry:list':
+				await listRegistry();
+				break;
+			case 'registry:set':
+				await setRegistryLabel(args[0], args[1], args[2], args[3]);
+				break;
+			case 'registry:removal':
+				await setRegistryRemoval(args[0], args[1]);
+				break;
+			case 'registry:delete':
+				await registry.delete(args[0]);
+				break;
+			case 'registry:seed':
+				if (!(await registry.seed())) {
+					logger.info('Label registry was already seeded');
+				}
+				break;
 			default:
 				showHelp();
 		}
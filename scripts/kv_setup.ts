@@ -7,17 +7,51 @@
  * The script validates and sets the following required configuration:
  * - DID: The DID of the labeler account
  * - SIGNING_KEY: Key used to sign labels
- * - JETSTREAM_URL: WebSocket endpoint for the Jetstream service
- * - COLLECTION: The collection to monitor (e.g., 'app.bsky.feed.like')
+ * - JETSTREAM_URLS: WebSocket endpoints for the Jetstream service, in order
+ *   of preference
+ * - JETSTREAM_FAILOVER_THRESHOLD: Consecutive connection failures before
+ *   failing over to the next endpoint
+ * - EVENT_SOURCE: Where events come from: the live Jetstream, or an NDJSON
+ *   recording replayed at a given speed and cursor range; a replay always
+ *   runs in shadow mode and does not log in or serve labels
+ * - TRIGGERS: The collections to monitor and the action each triggers
+ *   (e.g., likes of label posts, or follows of the labeler granting a label)
+ * - MAX_REPLAY_WINDOW: How far back to replay after downtime (in microseconds)
  * - CURSOR_INTERVAL: Interval for cursor updates (in milliseconds)
+ * - STALL_TIMEOUT: Time without events before the Jetstream connection is
+ *   reconnected (in milliseconds, 0 to disable)
+ * - RECONNECT_POLICY: How the Jetstream connection is retried: exponential
+ *   backoff with full jitter, or a circuit breaker that probes at a fixed
+ *   interval after repeated failures (delays in milliseconds)
+ * - SHUTDOWN_TIMEOUT: Time to wait for the Jetstream connection to close
+ *   before forcing it, and for queued events to finish on shutdown (in
+ *   milliseconds)
+ * - QUEUE_CONCURRENCY: Number of subject DIDs processed concurrently
+ * - QUEUE_CAPACITY: Maximum number of queued events before load is shed
+ * - DEDUP_PERSIST: Whether processed event IDs are persisted across restarts
  * - BSKY_HANDLE: Handle for the Bluesky account
  * - BSKY_PASSWORD: App password for authentication
  * - BSKY_URL: Bluesky API endpoint
  * - PORT: Port number for the labeler service
+ * - TELEMETRY_PORT: Port number for the Prometheus /metrics endpoint and the
+ *   /healthz and /readyz probes, or 0 to disable them
+ * - RULES_PATH: Path to a JSON rules file, or empty for the built-in rules
+ * - RECONCILE_ON_STARTUP: Whether to check metrics against the label database
+ *   on startup: off, report differences, or fix them
+ * - METRICS_HOURLY_RETENTION: Days to keep hourly activity metrics before
+ *   folding them into daily ones
+ * - SHADOW_MODE: Whether to journal the labels that would be emitted instead
+ *   of emitting them (see deno task shadow:report)
+ * - AUDIT_RETENTION_DAYS: Days to keep label decisions in the audit log
  */
 
 import { initLogging } from '../src/logger.ts';
-import { ConfigSchema } from '../src/schemas.ts';
+import {
+	ConfigSchema,
+	EventSourceConfig,
+	ReconnectPolicyConfig,
+	Trigger,
+} from '../src/schemas.ts';
 import { setValue } from './kv_utils.ts';
 import * as log from '@std/log';
 
@@ -27,15 +61,29 @@ const logger = log.getLogger();
 interface SetupConfig {
 	DID: string;
 	SIGNING_KEY: string;
-	JETSTREAM_URL: string;
-	COLLECTION: string;
+	JETSTREAM_URLS: string[];
+	JETSTREAM_FAILOVER_THRESHOLD: number;
+	EVENT_SOURCE: EventSourceConfig;
+	TRIGGERS: Trigger[];
 	CURSOR: number;
+	MAX_REPLAY_WINDOW: number;
 	CURSOR_INTERVAL: number;
+	STALL_TIMEOUT: number;
+	RECONNECT_POLICY: ReconnectPolicyConfig;
+	SHUTDOWN_TIMEOUT: number;
+	QUEUE_CONCURRENCY: number;
+	QUEUE_CAPACITY: number;
+	DEDUP_PERSIST: boolean;
 	BSKY_HANDLE: string;
 	BSKY_PASSWORD: string;
 	BSKY_URL: string;
 	PORT: number;
-	REMOVAL_RKEY: string;
+	TELEMETRY_PORT: number;
+	RULES_PATH: string;
+	RECONCILE_ON_STARTUP: 'off' | 'report' | 'fix';
+	METRICS_HOURLY_RETENTION: number;
+	SHADOW_MODE: boolean;
+	AUDIT_RETENTION_DAYS: number;
 }
 
 /**
@@ -45,15 +93,39 @@ interface SetupConfig {
 const defaultConfig: SetupConfig = {
 	DID: 'did:plc:7iza6de2dwap2sbkpav7c6c6',
 	SIGNING_KEY: 'K8ej1iNr0qpOT5RQZzA7/nMx2+4dFgYuCVbL3PwcJaU',
-	JETSTREAM_URL: 'wss://jetstream1.us-west.bsky.network/subscribe',
-	COLLECTION: 'app.bsky.feed.like',
+	JETSTREAM_URLS: [
+		'wss://jetstream1.us-west.bsky.network/subscribe',
+		'wss://jetstream2.us-west.bsky.network/subscribe',
+	],
+	JETSTREAM_FAILOVER_THRESHOLD: 3,
+	EVENT_SOURCE: { type: 'jetstream' },
+	TRIGGERS: [
+		{ collection: 'app.bsky.feed.like', action: { type: 'post' } },
+	],
 	CURSOR: 0,
+	MAX_REPLAY_WINDOW: 3_600_000_000,
 	CURSOR_INTERVAL: 10000,
+	STALL_TIMEOUT: 120000,
+	RECONNECT_POLICY: {
+		strategy: 'exponential',
+		baseDelay: 1000,
+		maxDelay: 600000,
+		immediateFirstRetry: true,
+	},
+	SHUTDOWN_TIMEOUT: 5000,
+	QUEUE_CONCURRENCY: 8,
+	QUEUE_CAPACITY: 10000,
+	DEDUP_PERSIST: true,
 	BSKY_HANDLE: 'test.bsky.social',
 	BSKY_PASSWORD: 'this-is-an-app-password',
 	BSKY_URL: 'https://bsky.social',
 	PORT: 1024,
-	REMOVAL_RKEY: '3jzfcijpj2z2d',
+	TELEMETRY_PORT: 9464,
+	RULES_PATH: '',
+	RECONCILE_ON_STARTUP: 'report',
+	METRICS_HOURLY_RETENTION: 7,
+	SHADOW_MODE: false,
+	AUDIT_RETENTION_DAYS: 90,
 };
 
 async function setup() {
@@ -108,25 +108,31 @@ export async function listKeys(prefix: Deno.KvKey): Promise<Deno.KvKey[]> {
 /**
  * Verifies KV store functionality with a test operation.
  *
+ * @param store - An open KV store to verify, or none to open the default one
  * @returns true if verification succeeds
  * @throws {KvError} If verification fails
  */
-export async function verifyKvStore(): Promise<boolean> {
+export async function verifyKvStore(store?: Deno.Kv): Promise<boolean> {
 	const testKey: Deno.KvKey = ['test', crypto.randomUUID()];
 	const testValue = 'test_value';
 
 	try {
-		const kv = await Deno.openKv();
-		await kv.set(testKey, testValue);
-		const result = await kv.get(testKey);
-		await kv.delete(testKey);
-		await kv.close();
+		const kv = store ?? await Deno.openKv();
+		try {
+			await kv.set(testKey, testValue);
+			const result = await kv.get(testKey);
+			await kv.delete(testKey);
 
-		if (result.value !== testValue) {
-			throw new Error('Value mismatch in verification');
+			if (result.value !== testValue) {
+				throw new Error('Value mismatch in verification');
+			}
+		} finally {
+			if (!store) {
+				await kv.close();
+			}
 		}
 
-		logger.info('KV store verification successful');
+		logger.debug('KV store verification successful');
 		return true;
 	} catch (error) {
 		logger.error('KV store verification failed', { error });
@@ -0,0 +1,222 @@
+/**
+ * Label administration CLI
+ * Applies, negates and inspects the labels of individual users, e.g. to
+ * fix a user stuck with the wrong label.
+ *
+ * Usage:
+ *   deno task label apply <did> <identifier>   Apply a label, replacing the
+ *                                              active label in its category
+ *   deno task label negate <did> [identifier]  Negate one or all active labels
+ *   deno task label show <did> [--json]        Show active labels and history
+ *   deno task label holders <identifier> [--page=N] [--limit=N] [--json]
+ *                                              List users holding a label
+ *
+ * Changes go through the Labeler, so they are validated, signed, counted in
+ * the metrics and audited like labels emitted by the running labeler. They are
+ * written to the label database directly; clients subscribed to a running
+ * labeler receive them when they next reconnect.
+ */
+import * as log from '@std/log';
+import { closeConfig, CONFIG, initializeConfig } from '../src/config.ts';
+import { initLogging } from '../src/logger.ts';
+import { Labeler } from '../src/labeler.ts';
+import { MetricsTracker } from '../src/metrics.ts';
+import { TriggerTracker } from '../src/triggers.ts';
+import { LabelRegistry } from '../src/registry.ts';
+import { Telemetry } from '../src/telemetry.ts';
+import { AuditLog } from '../src/audit.ts';
+import { LabelOperation, loadRules } from '../src/rules_engine.ts';
+import { formatTable } from './format.ts';
+
+await initLogging();
+const logger = log.getLogger();
+
+/** Default number of holders per page */
+const DEFAULT_PAGE_SIZE = 50;
+
+const kv = await Deno.openKv();
+
+/**
+ * Creates a Labeler for the configured label database, without starting
+ * its server or logging in
+ */
+async function createLabeler(): Promise<Labeler> {
+	await initializeConfig();
+	const metrics = new MetricsTracker(kv);
+	await metrics.init();
+	const registry = new LabelRegistry(kv);
+	return new Labeler(
+		metrics,
+		new TriggerTracker(kv),
+		await loadRules(CONFIG.RULES_PATH),
+		registry,
+		new Telemetry(),
+		null,
+		new AuditLog(kv),
+	);
+}
+
+/**
+ * Logs the operations emitted by a label change
+ */
+function reportChange(subject: string, operations: LabelOperation[]): void {
+	if (operations.length === 0) {
+		logger.info(`No label changes needed for ${subject}`);
+		return;
+	}
+	for (const { val, neg } of operations) {
+		logger.info(
+			neg ? `Negated ${val} for ${subject}` : `Applied ${val} to ${subject}`,
+		);
+	}
+}
+
+/**
+ * Shows the active labels of a user and every label entry for them
+ */
+async function showLabels(
+	labeler: Labeler,
+	subject: string,
+	json: boolean,
+): Promise<void> {
+	const active = await labeler.currentLabels(subject);
+	const history = await labeler.labelHistory(subject);
+
+	if (json) {
+		console.log(JSON.stringify({ subject, active, history }, null, 2));
+		return;
+	}
+	console.log(
+		`Active labels for ${subject}: ${active.join(', ') || '(none)'}`,
+	);
+	if (history.length > 0) {
+		console.log();
+		console.log(formatTable(
+			['Created', 'Label', 'Action'],
+			history.map(({ cts, val, neg }) => [cts, val, neg ? 'negate' : 'apply']),
+		));
+	}
+}
+
+/**
+ * Shows one page of the users holding a label
+ */
+async function showHolders(
+	labeler: Labeler,
+	identifier: string,
+	page: number,
+	limit: number,
+	json: boolean,
+): Promise<void> {
+	const { total, subjects } = await labeler.labelHolders(
+		identifier,
+		limit,
+		(page - 1) * limit,
+	);
+	const pages = Math.max(1, Math.ceil(total / limit));
+
+	if (json) {
+		console.log(
+			JSON.stringify({ identifier, total, page, pages, subjects }, null, 2),
+		);
+		return;
+	}
+	for (const subject of subjects) {
+		console.log(subject);
+	}
+	console.log(
+		`\n${total} users hold ${identifier} (page ${page} of ${pages})`,
+	);
+}
+
+/**
+ * Parses a positive integer flag value
+ * @throws {Error} If the value is not a positive integer
+ */
+function parsePositive(name: string, value: string | undefined): number {
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed <= 0) {
+		throw new Error(`Invalid ${name}: ${value}`);
+	}
+	return parsed;
+}
+
+/**
+ * Shows CLI help information
+ */
+function showHelp(): void {
+	console.log(
+		'Usage:\n' +
+			'  deno task label apply <did> <identifier>\n' +
+			'                                 Apply a label, replacing the active\n' +
+			'                                 label in its category\n' +
+			'  deno task label negate <did> [identifier]\n' +
+			'                                 Negate one or all active labels\n' +
+			'  deno task label show <did> [--json]\n' +
+			'                                 Show active labels and label history\n' +
+			'  deno task label holders <identifier> [--page=N] [--limit=N] [--json]\n' +
+			`                                 List users holding a label, ${DEFAULT_PAGE_SIZE} per page\n`,
+	);
+}
+
+/**
+ * Main CLI function
+ */
+async function main() {
+	const command = Deno.args[0];
+	const args = Deno.args.slice(1).filter((arg) => !arg.startsWith('--'));
+	const flags = Deno.args.slice(1).filter((arg) => arg.startsWith('--'));
+	const json = flags.includes('--json');
+	const flag = (name: string) =>
+		flags.find((flag) => flag.startsWith(`--${name}=`))
+			?.slice(`--${name}=`.length);
+
+	const required = { apply: 2, negate: 1, show: 1, holders: 1 };
+	if (!(command in required)) {
+		showHelp();
+		kv.close();
+		return;
+	}
+	let labeler: Labeler | null = null;
+
+	try {
+		if (args.length < required[command as keyof typeof required]) {
+			throw new Error(`Missing arguments for ${command}`);
+		}
+		labeler = await createLabeler();
+
+		switch (command) {
+			case 'apply':
+				reportChange(args[0], await labeler.applyLabel(args[0], args[1]));
+				break;
+			case 'negate':
+				reportChange(args[0], await labeler.negateLabels(args[0], args[1]));
+				break;
+			case 'show':
+				await showLabels(labeler, args[0], json);
+				break;
+			case 'holders':
+				await showHolders(
+					labeler,
+					args[0],
+					flag('page') ? parsePositive('page', flag('page')) : 1,
+					flag('limit')
+						? parsePositive('limit', flag('limit'))
+						: DEFAULT_PAGE_SIZE,
+					json,
+				);
+				break;
+		}
+	} catch (error) {
+		logger.error(
+			`Error: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		Deno.exitCode = 1;
+	} finally {
+		labeler?.close();
+		await closeConfig();
+		kv.close();
+	}
+}
+
+await main();
@@ -0,0 +1,331 @@
+/**
+ * Metrics CLI
+ * Shows label counts, their share within each category and daily trends.
+ *
+ * Usage:
+ *   deno task metrics [--json]                   Show current counts
+ *   deno task metrics:history [--days=N] [--json] Show daily counts
+ *   deno task metrics:reset [--yes]              Reset metrics and history
+ *   deno task metrics:reconcile [--fix] [--json] Compare metrics with the
+ *                                                label database
+ *   deno task metrics:activity [--from=<date>] [--to=<date>] [--days=N]
+ *                              [--csv | --json]  Show label activity, such as
+ *                                                applications and transitions
+ *
+ * Each user holds at most one label per category, so a label's share is its
+ * count divided by the number of labeled users in its category.
+ */
+import * as log from '@std/log';
+import { LabelerServer } from 'skyware';
+import { closeConfig, CONFIG, initializeConfig } from '../src/config.ts';
+import { initLogging } from '../src/logger.ts';
+import { activityToCsv, LabelMetrics, MetricsTracker } from '../src/metrics.ts';
+import { reconcileMetrics } from '../src/reconcile.ts';
+import { ServiceLease } from '../src/lease.ts';
+import { LabelRegistry } from '../src/registry.ts';
+import { formatTable, parseDate } from './format.ts';
+
+await initLogging();
+const logger = log.getLogger();
+
+const kv = await Deno.openKv();
+const metrics = new MetricsTracker(kv);
+const registry = new LabelRegistry(kv);
+
+/**
+ * A row of the current metrics
+ */
+interface MetricsRow {
+	label: string;
+	category: string;
+	count: number;
+	share: number;
+}
+
+/**
+ * Builds one row per label with its share of the labeled users in its
+ * category, ordered by category and then by count.
+ */
+async function buildRows(counts: LabelMetrics): Promise<MetricsRow[]> {
+	const categories = await registry.categories();
+	const labels = new Set([...categories.keys(), ...Object.keys(counts)]);
+
+	const rows = [...labels].map((label) => ({
+		label,
+		category: categories.get(label) ?? '(unknown)',
+		count: counts[label] ?? 0,
+		share: 0,
+	}));
+
+	const totals = new Map<string, number>();
+	for (const row of rows) {
+		totals.set(row.category, (totals.get(row.category) ?? 0) + row.count);
+	}
+	for (const row of rows) {
+		const total = totals.get(row.category) ?? 0;
+		row.share = total > 0 ? row.count / total : 0;
+	}
+
+	return rows.sort((a, b) =>
+		a.category.localeCompare(b.category) || b.count - a.count
+	);
+}
+
+/**
+ * Shows the current count and share of each label
+ */
+async function showMetrics(json: boolean): Promise<void> {
+	const rows = await buildRows(await metrics.getLabelMetrics());
+
+	if (json) {
+		console.log(JSON.stringify(rows, null, 2));
+		return;
+	}
+	if (rows.length === 0) {
+		console.log('No metrics recorded');
+		return;
+	}
+	console.log(formatTable(
+		['Label', 'Category', 'Count', 'Share'],
+		rows.map((row) => [
+			row.label,
+			row.category,
+			String(row.count),
+			`${(row.share * 100).toFixed(1)}%`,
+		]),
+	));
+}
+
+/**
+ * Shows the daily counts of each label and the change from the day before
+ */
+async function showHistory(
+	days: number | undefined,
+	json: boolean,
+): Promise<void> {
+	const history = await metrics.getHistory(days);
+
+	if (json) {
+		console.log(JSON.stringify(history, null, 2));
+		return;
+	}
+	if (history.length === 0) {
+		console.log('No metrics history recorded');
+		return;
+	}
+
+	const labels = [
+		...new Set(history.flatMap((snapshot) => Object.keys(snapshot.counts))),
+	].sort();
+	const rows = history.map((snapshot, i) => {
+		const previous = history[i - 1]?.counts;
+		return [
+			snapshot.date,
+			...labels.map((label) => {
+				const count = snapshot.counts[label] ?? 0;
+				if (!previous) return String(count);
+				const change = count - (previous[label] ?? 0);
+				return `${count} (${change >= 0 ? '+' : ''}${change})`;
+			}),
+		];
+	});
+	console.log(formatTable(['Date', ...labels], rows));
+}
+
+/**
+ * Shows label activity in a time range, as a table, JSON or CSV
+ */
+async function showActivity(
+	from: Date,
+	to: Date,
+	format: 'table' | 'json' | 'csv',
+): Promise<void> {
+	const records = await metrics.getActivity(from, to);
+
+	if (format === 'json') {
+		console.log(JSON.stringify(records, null, 2));
+		return;
+	}
+	if (format === 'csv') {
+		await Deno.stdout.write(new TextEncoder().encode(activityToCsv(records)));
+		return;
+	}
+	if (records.length === 0) {
+		console.log('No label activity recorded in this range');
+		return;
+	}
+
+	const totals = new Map<
+		string,
+		{ kind: string; label: string; count: number }
+	>();
+	for (const { kind, label, count } of records) {
+		const key = `${kind} ${label}`;
+		const total = totals.get(key) ?? { kind, label, count: 0 };
+		total.count += count;
+		totals.set(key, total);
+	}
+	console.log(
+		`Label activity from ${from.toISOString()} to ${to.toISOString()}`,
+	);
+	console.log(formatTable(
+		['Kind', 'Label', 'Count'],
+		[...totals.values()]
+			.sort((a, b) => a.kind.localeCompare(b.kind) || b.count - a.count)
+			.map(({ kind, label, count }) => [kind, label, String(count)]),
+	));
+}
+
+/**
+ * Resets metrics after confirmation, unless --yes is given. Refused while
+ * the labeler is running, since labels it emits meanwhile would be lost
+ * from the metrics.
+ */
+async function resetMetrics(yes: boolean): Promise<void> {
+	const holder = await new ServiceLease(kv).holder();
+	if (holder) {
+		throw new Error(
+			`The labeler is running (pid ${holder.pid}); stop it before ` +
+				'resetting the metrics',
+		);
+	}
+
+	if (!yes && !confirm('Reset all label metrics and their history?')) {
+		logger.info('Reset cancelled');
+		return;
+	}
+	await metrics.reset();
+	logger.info('Metrics reset');
+}
+
+/**
+ * Compares the metrics with the label database, and corrects them if
+ * --fix is given. Correcting is refused while the labeler is running,
+ * since labels it emits meanwhile would be lost from the metrics.
+ */
+async function reconcile(fix: boolean, json: boolean): Promise<void> {
+	const holder = fix ? await new ServiceLease(kv).holder() : null;
+	if (holder) {
+		throw new Error(
+			`The labeler is running (pid ${holder.pid}); stop it before ` +
+				'reconciling with --fix, or set RECONCILE_ON_STARTUP=fix',
+		);
+	}
+
+	await initializeConfig();
+	const server = new LabelerServer({
+		did: CONFIG.DID,
+		signingKey: CONFIG.SIGNING_KEY,
+	});
+
+	try {
+		const report = await reconcileMetrics(server.db, server.did, metrics, {
+			fix,
+		});
+
+		if (json) {
+			console.log(JSON.stringify(report, null, 2));
+			return;
+		}
+		console.log(`Labeled users: ${report.subjects}`);
+		if (report.differences.length === 0) {
+			console.log('Metrics match the label database');
+			return;
+		}
+		console.log(formatTable(
+			['Label', 'KV', 'Expected', 'Drift'],
+			report.differences.map(({ label, expected, actual }) => [
+				label,
+				String(actual),
+				String(expected),
+				`${actual > expected ? '+' : ''}${actual - expected}`,
+			]),
+		));
+		console.log(
+			report.fixed
+				? 'Metrics corrected'
+				: 'Run with --fix to correct the metrics',
+		);
+	} finally {
+		server.db.close();
+		await closeConfig();
+	}
+}
+
+/**
+ * Shows CLI help information
+ */
+function showHelp(): void {
+	console.log(
+		'Usage:\n' +
+			'  deno task metrics [--json]     Show label counts and shares\n' +
+			'  deno task metrics:history [--days=N] [--json]\n' +
+			'                                 Show daily label counts\n' +
+			'  deno task metrics:reset [--yes]\n' +
+			'                                 Reset metrics and their history\n' +
+			'  deno task metrics:reconcile [--fix] [--json]\n' +
+			'                                 Compare metrics with the label database\n' +
+			'  deno task metrics:activity [--from=<date>] [--to=<date>] [--days=N]\n' +
+			'                             [--csv | --json]\n' +
+			'                                 Show label activity, 7 days by default\n',
+	);
+}
+
+/**
+ * Main CLI function
+ */
+async function main() {
+	const command = Deno.args[0];
+	const flags = Deno.args.slice(1);
+	const json = flags.includes('--json');
+	const flag = (name: string) =>
+		flags.find((flag) => flag.startsWith(`--${name}=`))
+			?.slice(`--${name}=`.length);
+	const days = flag('days');
+
+	try {
+		switch (command) {
+			case 'show':
+				await showMetrics(json);
+				break;
+			case 'history':
+				if (days !== undefined && !(Number(days) > 0)) {
+					throw new Error(`Invalid number of days: ${days}`);
+				}
+				await showHistory(days ? Number(days) : undefined, json);
+				break;
+			case 'reset':
+				await resetMetrics(flags.includes('--yes'));
+				break;
+			case 'reconcile':
+				await reconcile(flags.includes('--fix'), json);
+				break;
+			case 'activity': {
+				if (days !== undefined && !(Number(days) > 0)) {
+					throw new Error(`Invalid number of days: ${days}`);
+				}
+				const to = flag('to') ? parseDate(flag('to')!) : new Date();
+				const from = flag('from')
+					? parseDate(flag('from')!)
+					: new Date(to.getTime() - Number(days ?? 7) * 24 * 60 * 60 * 1000);
+				await showActivity(
+					from,
+					to,
+					flags.includes('--csv') ? 'csv' : json ? 'json' : 'table',
+				);
+				break;
+			}
+			default:
+				showHelp();
+		}
+	} catch (error) {
+		logger.error(
+			`Error: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		Deno.exit(1);
+	} finally {
+		await kv.close();
+	}
+}
+
+await main();
@@ -0,0 +1,78 @@
+/**
+ * Mock Jetstream
+ * Serves an NDJSON recording of Jetstream events on a local WebSocket, so
+ * the labeler can be run against recorded traffic through its real
+ * Jetstream connection.
+ *
+ * Usage:
+ *   deno task jetstream:mock <recording.ndjson> [--port=N] [--speed=N]
+ *
+ * Point the labeler at it with:
+ *   deno task kv:set JETSTREAM_URLS '["ws://localhost:6008/subscribe"]'
+ *
+ * --speed replays at N times the recorded pace; 0 (the default) sends
+ * events as fast as possible. Stop the server with Ctrl+C.
+ */
+import * as log from '@std/log';
+import { initLogging } from '../src/logger.ts';
+import { MockJetstreamServer } from '../src/mock_jetstream.ts';
+
+await initLogging();
+const logger = log.getLogger();
+
+/** Default port of the mock Jetstream */
+const DEFAULT_PORT = 6008;
+
+function showHelp() {
+	console.log(`
+Usage: deno task jetstream:mock <recording.ndjson> [--port=N] [--speed=N]
+
+Serves the recording on ws://localhost:<port>/subscribe (default port ${DEFAULT_PORT}).
+--speed replays at N times the recorded pace, 0 sends as fast as possible.
+`);
+}
+
+/**
+ * Main CLI function
+ */
+async function main() {
+	const recording = Deno.args.find((arg) => !arg.startsWith('--'));
+	const flags = Deno.args.filter((arg) => arg.startsWith('--'));
+	const flag = (name: string) =>
+		flags.find((flag) => flag.startsWith(`--${name}=`))
+			?.slice(`--${name}=`.length);
+
+	if (!recording) {
+		showHelp();
+		Deno.exit(1);
+	}
+
+	const port = Number(flag('port') ?? DEFAULT_PORT);
+	const speed = Number(flag('speed') ?? 0);
+	try {
+		if (!Number.isInteger(port) || port <= 0) {
+			throw new Error(`Invalid port: ${flag('port')}`);
+		}
+		if (!(speed >= 0)) {
+			throw new Error(`Invalid speed: ${flag('speed')}`);
+		}
+		await Deno.stat(recording);
+	} catch (error) {
+		logger.error(
+			`Error: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		Deno.exit(1);
+	}
+
+	const server = new MockJetstreamServer(port, { recording, speed });
+	server.start();
+
+	const shutdown = async () => {
+		await server.shutdown();
+		Deno.exit(0);
+	};
+	Deno.addSignalListener('SIGINT', shutdown);
+	Deno.addSignalListener('SIGTERM', shutdown);
+}
+
+await main();
@@ -0,0 +1,74 @@
+/**
+ * Labeler service declaration CLI
+ * Builds the app.bsky.labeler.service record from the label registry and
+ * publishes it with the labeler account.
+ *
+ * Usage:
+ *   deno task service:diff       Show changes without publishing
+ *   deno task service:publish    Publish the declaration
+ *
+ * Options:
+ *   --service=<url>  PDS to publish to instead of BSKY_URL (e.g. a mock PDS)
+ */
+import { AtpAgent } from 'atproto';
+import * as log from '@std/log';
+import { closeConfig, CONFIG, initializeConfig } from '../src/config.ts';
+import { initLogging } from '../src/logger.ts';
+import { LabelRegistry } from '../src/registry.ts';
+import { publishServiceRecord } from '../src/service_record.ts';
+
+await initLogging();
+const logger = log.getLogger();
+
+const command = Deno.args[0];
+const service = Deno.args.find((arg) => arg.startsWith('--service='))
+	?.slice('--service='.length);
+
+if (command !== 'diff' && command !== 'publish') {
+	logger.info('Available commands:');
+	logger.info('  diff [--service=<url>]     Show changes without publishing');
+	logger.info('  publish [--service=<url>]  Publish the service declaration');
+	Deno.exit(1);
+}
+
+await initializeConfig();
+const kv = await Deno.openKv();
+
+try {
+	const registry = new LabelRegistry(kv);
+	await registry.seed();
+
+	const agent = new AtpAgent({ service: service ?? CONFIG.BSKY_URL });
+	await agent.login({
+		identifier: CONFIG.BSKY_HANDLE,
+		password: CONFIG.BSKY_PASSWORD,
+	});
+
+	const result = await publishServiceRecord(
+		agent,
+		CONFIG.DID,
+		await registry.labels(),
+		{ dryRun: command === 'diff' },
+	);
+
+	if (result.changes.length === 0) {
+		logger.info('Service declaration is up to date');
+	} else {
+		for (const change of result.changes) {
+			logger.info(change);
+		}
+		logger.info(
+			result.published
+				? 'Service declaration published'
+				: 'Dry run, nothing published',
+		);
+	}
+} catch (error) {
+	logger.error(
+		`Error: ${error instanceof Error ? error.message : String(error)}`,
+	);
+	Deno.exitCode = 1;
+} finally {
+	kv.close();
+	await closeConfig();
+}
@@ -0,0 +1,120 @@
+/**
+ * Shadow mode CLI
+ * Reports what the labeler decided while running with SHADOW_MODE, and
+ * clears the shadow journal before a new run.
+ *
+ * Usage:
+ *   deno task shadow:report [--json]   Summarize the journaled decisions
+ *   deno task shadow:clear [--yes]     Delete the shadow journal, including
+ *                                      the shadow trigger records
+ */
+import * as log from '@std/log';
+import { initLogging } from '../src/logger.ts';
+import { ShadowJournal } from '../src/shadow.ts';
+import { formatTable } from './format.ts';
+
+await initLogging();
+const logger = log.getLogger();
+
+const kv = await Deno.openKv();
+const journal = new ShadowJournal(kv);
+
+/**
+ * Shows the decisions by outcome and rule, and the labels that would
+ * have been applied or negated
+ */
+async function showReport(json: boolean): Promise<void> {
+	const report = await journal.report();
+
+	if (json) {
+		console.log(JSON.stringify(report, null, 2));
+		return;
+	}
+	if (report.decisions === 0) {
+		console.log('No shadow decisions recorded');
+		return;
+	}
+
+	console.log(
+		`${report.decisions} decisions from ${report.from} to ${report.to}, ` +
+			`${report.subjects} users would have been labeled\n`,
+	);
+	console.log(formatTable(
+		['Outcome', 'Count'],
+		Object.entries(report.outcomes)
+			.sort(([, a], [, b]) => b - a)
+			.map(([outcome, count]) => [outcome, String(count)]),
+	));
+	console.log();
+	console.log(formatTable(
+		['Rule', 'Count'],
+		Object.entries(report.rules)
+			.sort(([, a], [, b]) => b - a)
+			.map(([rule, count]) => [rule, String(count)]),
+	));
+	if (Object.keys(report.labels).length > 0) {
+		console.log();
+		console.log(formatTable(
+			['Label', 'Applied', 'Negated'],
+			Object.entries(report.labels)
+				.sort(([a], [b]) => a.localeCompare(b))
+				.map(([label, { applied, negated }]) => [
+					label,
+					String(applied),
+					String(negated),
+				]),
+		));
+	}
+}
+
+/**
+ * Deletes the shadow journal after confirmation, unless --yes is given
+ */
+async function clearJournal(yes: boolean): Promise<void> {
+	if (!yes && !confirm('Delete all shadow mode decisions and labels?')) {
+		logger.info('Clear cancelled');
+		return;
+	}
+	await journal.clear();
+}
+
+/**
+ * Shows CLI help information
+ */
+function showHelp(): void {
+	console.log(
+		'Usage:\n' +
+			'  deno task shadow:report [--json]  Summarize shadow mode decisions\n' +
+			'  deno task shadow:clear [--yes]    Delete the shadow journal\n',
+	);
+}
+
+/**
+ * Main CLI function
+ */
+async function main() {
+	const command = Deno.args[0];
+	const flags = Deno.args.slice(1);
+
+	try {
+		switch (command) {
+			case 'report':
+				await showReport(flags.includes('--json'));
+				break;
+			case 'clear':
+				await clearJournal(flags.includes('--yes'));
+				break;
+			default:
+				showHelp();
+		}
+	} catch (error) {
+		logger.error(
+			`Error: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		Deno.exit(1);
+	} finally {
+		kv.close();
+	}
+}
+
+await main();
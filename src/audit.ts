@@ -0,0 +1,219 @@
+/**
+ * Label audit log
+ * An append-only record of every decision the labeler makes about a
+ * subject's labels, answering why an account holds a label.
+ *
+ * - Each entry holds the source event, the labels before and after, the
+ *   rule and action, and whether an event or an administrator caused it
+ * - Entries are keyed by subject and time, with a time index so expired
+ *   entries can be pruned without scanning every subject
+ * - Entries are never updated; they are only removed once older than the
+ *   retention period
+ */
+import * as log from '@std/log';
+import { KvError } from './errors.ts';
+import { LabelIdentifier } from './schemas.ts';
+import { LabelOperation } from './rules_engine.ts';
+import { TriggerOutcome } from './shadow.ts';
+import { Clock, systemClock } from './clock.ts';
+
+/** Expired entries deleted per atomic commit, two keys each */
+const PRUNE_BATCH_SIZE = 250;
+
+/**
+ * The event that caused a decision.
+ */
+export interface AuditSource {
+	/** AT-URI of the trigger record */
+	uri: string;
+	/** CID of the trigger record, for created records */
+	cid?: string;
+	/** Jetstream time_us of the event */
+	timeUs?: number;
+	operation: 'create' | 'delete';
+}
+
+/**
+ * One decision about a subject's labels.
+ */
+export interface AuditEntry {
+	/** When the decision was made, as an ISO timestamp */
+	at: string;
+	subject: string;
+	/** An event from the stream, or an administrator using the label CLI */
+	actor: 'event' | 'admin';
+	/** The event that caused the decision, for event decisions */
+	source?: AuditSource;
+	/** The rule that fired, or null if none did or no rule was evaluated */
+	rule: string | null;
+	outcome: TriggerOutcome;
+	/** Active labels before the decision, or null if they were not read */
+	previous: LabelIdentifier[] | null;
+	/** Active labels after the decision, or null if they were not read */
+	current: LabelIdentifier[] | null;
+	/** The label operations emitted, in order */
+	operations: LabelOperation[];
+}
+
+/**
+ * Appends, queries and prunes audit entries in Deno KV.
+ */
+export class AuditLog {
+	private readonly logger = log.getLogger();
+	private sequence = 0;
+
+	/**
+	 * @param kv - The KV store holding the audit log
+	 * @param clock - The time source for entry times and retention
+	 */
+	constructor(
+		private readonly kv: Deno.Kv,
+		private readonly clock: Clock = systemClock,
+	) {}
+
+	/**
+	 * Appends an entry
+	 *
+	 * @throws {KvError} If the entry cannot be written
+	 */
+	async record(entry: Omit<AuditEntry, 'at'>): Promise<void> {
+		const now = this.clock.now();
+		const sequence = this.sequence++;
+		try {
+			const result = await this.kv.atomic()
+				.set(['audit', 'subject', entry.subject, now, sequence], {
+					at: new Date(now).toISOString(),
+					...entry,
+				})
+				.set(['audit', 'time', now, entry.subject, sequence], true)
+				.commit();
+			if (!result.ok) {
+				throw new Error('atomic commit failed');
+			}
+		} catch (error) {
+			throw this.error(`Failed to audit decision for ${entry.subject}`, error);
+		}
+	}
+
+	/**
+	 * Lists the entries of one subject in a time range, oldest first
+	 *
+	 * @param subject - The subject DID
+	 * @param from - Start of the range, inclusive
+	 * @param to - End of the range, exclusive
+	 */
+	async query(subject: string, from: Date, to: Date): Promise<AuditEntry[]> {
+		const entries: AuditEntry[] = [];
+		try {
+			for await (
+				const entry of this.kv.list<AuditEntry>({
+					start: ['audit', 'subject', subject, from.getTime()],
+					end: ['audit', 'subject', subject, to.getTime()],
+				})
+			) {
+				entries.push(entry.value);
+			}
+			return entries;
+		} catch (error) {
+			throw this.error(`Failed to query audit log for ${subject}`, error);
+		}
+	}
+
+	/**
+	 * Lists the entries of all subjects in a time range, oldest first
+	 *
+	 * @param from - Start of the range, inclusive
+	 * @param to - End of the range, exclusive
+	 */
+	async *export(from: Date, to: Date): AsyncGenerator<AuditEntry> {
+		try {
+			for await (
+				const index of this.kv.list({
+					start: ['audit', 'time', from.getTime()],
+					end: ['audit', 'time', to.getTime()],
+				})
+			) {
+				const [, , time, subject, sequence] = index.key;
+				const entry = await this.kv.get<AuditEntry>([
+					'audit',
+					'subject',
+					subject,
+					time,
+					sequence,
+				]);
+				if (entry.value) {
+					yield entry.value;
+				}
+			}
+		} catch (error) {
+			throw this.error('Failed to export audit log', error);
+		}
+	}
+
+	/**
+	 * Deletes entries older than the retention period
+	 *
+	 * @param retentionDays - Days to keep entries for
+	 * @returns The number of deleted entries
+	 */
+	async prune(retentionDays: number): Promise<number> {
+		const cutoff = this.clock.now() - retentionDays * 24 * 60 * 60 * 1000;
+		let pruned = 0;
+		try {
+			let atomic = this.kv.atomic();
+			let batched = 0;
+			for await (
+				const index of this.kv.list({
+					start: ['audit', 'time'],
+					end: ['audit', 'time', cutoff],
+				})
+			) {
+				const [, , time, subject, sequence] = index.key;
+				atomic
+					.delete(index.key)
+					.delete(['audit', 'subject', subject, time, sequence]);
+				if (++batched === PRUNE_BATCH_SIZE) {
+					await atomic.commit();
+					pruned += batched;
+					atomic = this.kv.atomic();
+					batched = 0;
+				}
+			}
+			if (batched > 0) {
+				await atomic.commit();
+				pruned += batched;
+			}
+		} catch (error) {
+			throw this.error('Failed to prune audit log', error);
+		}
+		if (pruned > 0) {
+			this.logger.info(`Pruned ${pruned} audit entries`);
+		}
+		return pruned;
+	}
+
+	private error(message: string, error: unknown): KvError {
+		const msg = `${message}: ${
+			error instanceof Error ? error.message : String(error)
+		}`;
+		this.logger.error(msg);
+		return new KvError(msg);
+	}
+}
+
+/**
+ * The labels active after applying operations to the given labels
+ */
+export function applyOperations(
+	labels: readonly LabelIdentifier[],
+	operations: readonly LabelOperation[],
+): LabelIdentifier[] {
+	let active = [...labels];
+	for (const { val, neg } of operations) {
+		active = active.filter((label) => label !== val);
+		if (!neg) {
+			active.push(val);
+		}
+	}
+	return active;
+}
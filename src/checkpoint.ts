@@ -0,0 +1,188 @@
+/**
+ * Cursor checkpointing module
+ * Persists the Jetstream cursor only once events have been fully processed.
+ *
+ * Guarantees at-least-once processing across restarts:
+ * - The persisted cursor never passes an event that is still in flight
+ * - At most one KV write per checkpoint interval
+ * - Reconnects rewind by a safety margin, relying on deduplication downstream
+ * - Events dropped by a full queue hold the checkpoint back until they are
+ *   delivered again; rewinding forgets the progress past them, so the
+ *   checkpoint only advances again as the replayed events are processed
+ * - A final checkpoint is flushed on shutdown
+ */
+import * as log from '@std/log';
+import { setConfigValue } from './config.ts';
+import { Clock, systemClock } from './clock.ts';
+
+/** Default amount to rewind the cursor on reconnect (5 seconds, in microseconds) */
+const DEFAULT_REWIND_MARGIN = 5_000_000;
+
+/**
+ * Tracks in-flight events by their Jetstream time_us and periodically
+ * persists the newest cursor that is safe to resume from.
+ */
+export class CursorCheckpointer {
+	private readonly logger = log.getLogger();
+	private readonly inFlight = new Map<number, number>();
+	private readonly dropped = new Set<number>();
+	private highestCompleted = 0;
+	private persisted: number;
+	private flushInterval: number | null = null;
+
+	/**
+	 * @param initialCursor - The cursor processing resumes from
+	 * @param interval - Minimum time between KV writes, in milliseconds
+	 * @param rewindMargin - How far to rewind on reconnect, in microseconds
+	 * @param clock - The clock driving the checkpoint interval
+	 * @param save - Persists a checkpointed cursor, to the CURSOR config key
+	 *   by default
+	 */
+	constructor(
+		initialCursor: number,
+		private readonly interval: number,
+		private readonly rewindMargin = DEFAULT_REWIND_MARGIN,
+		private readonly clock: Clock = systemClock,
+		private readonly save: (cursor: number) => Promise<void> = (cursor) =>
+			setConfigValue('CURSOR', cursor),
+	) {
+		this.persisted = initialCursor;
+		this.highestCompleted = initialCursor;
+	}
+
+	/**
+	 * Marks an event as received and not yet processed
+	 */
+	begin(timeUs: number): void {
+		// A dropped event received again is in flight like any other
+		this.dropped.delete(timeUs);
+		this.inFlight.set(timeUs, (this.inFlight.get(timeUs) ?? 0) + 1);
+	}
+
+	/**
+	 * Marks an event as processed, whether it succeeded or was discarded
+	 */
+	complete(timeUs: number): void {
+		const count = this.inFlight.get(timeUs) ?? 0;
+		if (count <= 1) {
+			this.inFlight.delete(timeUs);
+		} else {
+			this.inFlight.set(timeUs, count - 1);
+		}
+		if (timeUs > this.highestCompleted) {
+			this.highestCompleted = timeUs;
+		}
+	}
+
+	/**
+	 * Marks an event as received and needing no processing
+	 */
+	skip(timeUs: number): void {
+		this.dropped.delete(timeUs);
+		if (timeUs > this.highestCompleted) {
+			this.highestCompleted = timeUs;
+		}
+	}
+
+	/**
+	 * Marks an event that was received but could not be processed, such as
+	 * one shed by a full queue. The checkpoint stays before it until it is
+	 * received again.
+	 */
+	drop(timeUs: number): void {
+		this.complete(timeUs);
+		this.dropped.add(timeUs);
+	}
+
+	/**
+	 * Forgets the progress past the oldest dropped event, before the source
+	 * replays the events after the checkpoint. The events received again
+	 * are tracked like new ones, so the checkpoint does not pass them until
+	 * they are processed.
+	 */
+	rewind(): void {
+		this.highestCompleted = this.checkpoint;
+		this.dropped.clear();
+	}
+
+	/**
+	 * The newest cursor that is safe to resume from.
+	 * Stays just before the oldest in-flight or dropped event, and never
+	 * moves backwards.
+	 */
+	get checkpoint(): number {
+		let safe = this.highestCompleted;
+		for (const timeUs of [...this.inFlight.keys(), ...this.dropped]) {
+			if (timeUs - 1 < safe) {
+				safe = timeUs - 1;
+			}
+		}
+		return Math.max(safe, this.persisted);
+	}
+
+	/**
+	 * Number of events received but not yet processed, including dropped
+	 * events waiting to be received again
+	 */
+	get pending(): number {
+		let total = this.dropped.size;
+		for (const count of this.inFlight.values()) {
+			total += count;
+		}
+		return total;
+	}
+
+	/**
+	 * The cursor to reconnect from, rewound by the safety margin
+	 */
+	resumeCursor(): number {
+		return Math.max(this.checkpoint - this.rewindMargin, 0);
+	}
+
+	/**
+	 * Starts periodic checkpointing
+	 */
+	start(): void {
+		if (this.flushInterval !== null) {
+			return;
+		}
+		this.flushInterval = this.clock.setInterval(() => {
+			this.flush().catch((error) => {
+				this.logger.error(
+					`Checkpoint failed: ${
+						error instanceof Error ? error.message : String(error)
+					}`,
+				);
+			});
+		}, this.interval);
+	}
+
+	/**
+	 * Persists the current checkpoint if it has advanced
+	 */
+	async flush(): Promise<void> {
+		const cursor = this.checkpoint;
+		if (cursor <= this.persisted) {
+			return;
+		}
+		await this.save(cursor);
+		this.persisted = cursor;
+		this.logger.debug(
+			`Checkpointed cursor ${cursor} (${
+				new Date(cursor / 1000).toISOString()
+			}), ${this.pending} events in flight`,
+		);
+	}
+
+	/**
+	 * Stops periodic checkpointing and flushes a final checkpoint
+	 */
+	async stop(): Promise<void> {
+		if (this.flushInterval !== null) {
+			this.clock.clearInterval(this.flushInterval);
+			this.flushInterval = null;
+		}
+		await this.flush();
+		this.logger.info(`Final cursor checkpoint: ${this.persisted}`);
+	}
+}
@@ -0,0 +1,27 @@
+/**
+ * Clock
+ * The time source and timers used by the connection handler, the stall
+ * watchdog, the cursor checkpointer, the metrics time buckets and the
+ * audit log. Injecting a clock lets them be driven by a fake clock instead
+ * of real timers.
+ */
+
+/**
+ * The time source and timers.
+ */
+export interface Clock {
+	now(): number;
+	setTimeout(callback: () => void, ms: number): number;
+	clearTimeout(id: number): void;
+	setInterval(callback: () => void, ms: number): number;
+	clearInterval(id: number): void;
+}
+
+/** Clock backed by Date.now and the global timers */
+export const systemClock: Clock = {
+	now: () => Date.now(),
+	setTimeout: (callback, ms) => setTimeout(callback, ms),
+	clearTimeout: (id) => clearTimeout(id),
+	setInterval: (callback, ms) => setInterval(callback, ms),
+	clearInterval: (id) => clearInterval(id),
+};
@@ -28,17 +28,93 @@ let logger: log.Logger | null = null;
 export const defaultConfig: z.infer<typeof ConfigSchema> = {
 	DID: 'did:plc:7iza6de2dwap2sbkpav7c6c6',
 	SIGNING_KEY: 'K8ej1iNr0qpOT5RQZzA7/nMx2+4dFgYuCVbL3PwcJaU',
-	JETSTREAM_URL: 'wss://jetstream1.us-west.bsky.network/subscribe',
-	COLLECTION: 'app.bsky.feed.like',
+	JETSTREAM_URLS: [
+		'wss://jetstream1.us-west.bsky.network/subscribe',
+		'wss://jetstream2.us-west.bsky.network/subscribe',
+	],
+	JETSTREAM_FAILOVER_THRESHOLD: 3,
+	EVENT_SOURCE: { type: 'jetstream' },
+	TRIGGERS: [
+		{ collection: 'app.bsky.feed.like', action: { type: 'post' } },
+	],
 	CURSOR: 0,
+	MAX_REPLAY_WINDOW: 3_600_000_000,
 	CURSOR_INTERVAL: 10000,
+	STALL_TIMEOUT: 120000,
+	RECONNECT_POLICY: {
+		strategy: 'exponential',
+		baseDelay: 1000,
+		maxDelay: 600000,
+		immediateFirstRetry: true,
+	},
+	SHUTDOWN_TIMEOUT: 5000,
+	QUEUE_CONCURRENCY: 8,
+	QUEUE_CAPACITY: 10000,
+	DEDUP_PERSIST: true,
 	BSKY_HANDLE: 'default.handle',
 	BSKY_PASSWORD: 'default_password',
 	BSKY_URL: 'https://bsky.social',
 	PORT: 1024,
-	REMOVAL_RKEY: '3jzfcijpj2z2d',
+	TELEMETRY_PORT: 9464,
+	RULES_PATH: '',
+	RECONCILE_ON_STARTUP: 'report',
+	METRICS_HOURLY_RETENTION: 7,
+	SHADOW_MODE: false,
+	AUDIT_RETENTION_DAYS: 90,
 };
 
+/**
+ * Moves a stored legacy configuration value to the key that replaced it.
+ * Runs before the defaults are written, so the default of the replacement
+ * cannot shadow the operator's value. A replacement that was already set
+ * wins. The legacy key is deleted either way.
+ *
+ * @param legacy - The key that was replaced
+ * @param replacement - The key that replaced it
+ * @param convert - Converts the legacy value to the replacement's value
+ */
+async function migrateConfigKey<K extends keyof z.infer<typeof ConfigSchema>>(
+	legacy: string,
+	replacement: K,
+	convert: (value: unknown) => z.infer<typeof ConfigSchema>[K],
+): Promise<void> {
+	const previous = await kv!.get(['config', legacy]);
+	if (previous.value === null) {
+		return;
+	}
+
+	const current = await kv!.get(['config', replacement]);
+	const op = kv!.atomic().check(previous, current).delete(['config', legacy]);
+	if (current.value === null) {
+		op.set(['config', replacement], convert(previous.value));
+	}
+	const result = await op.commit();
+	if (!result.ok) {
+		throw new ConfigurationError(
+			`Configuration changed while migrating ${legacy}, try again`,
+		);
+	}
+	logger?.info(
+		current.value === null
+			? `Migrated config ${legacy} to ${replacement}`
+			: `Removed config ${legacy}, superseded by ${replacement}`,
+	);
+}
+
+/**
+ * Migrates configuration keys replaced in earlier versions.
+ */
+async function migrateLegacyConfig(): Promise<void> {
+	// A single liked collection, whose records target label posts
+	await migrateConfigKey('COLLECTION', 'TRIGGERS', (collection) => [
+		{ collection: String(collection), action: { type: 'post' } },
+	]);
+	// A single Jetstream endpoint, without failover
+	await migrateConfigKey('JETSTREAM_URL', 'JETSTREAM_URLS', (url) => [
+		String(url),
+	]);
+}
+
 /**
  * Retrieves configuration from KV store.
  * Falls back to placeholder values if not set.
@@ -159,6 +235,8 @@ export async function initializeConfig(): Promise<void> {
 		logger.info(`Logs are being saved to: ${logFilePath}`);
 	}
 
+	await migrateLegacyConfig();
+
 	// Initialize KV store with default values if keys don't exist
 	for (const [key, value] of Object.entries(defaultConfig)) {
 		const result = await kv.get(['config', key]);
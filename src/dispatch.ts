@@ -0,0 +1,176 @@
+/**
+ * Event dispatch
+ * Sits between the event source callbacks and the ingestion queue, and
+ * decides which events are processed.
+ *
+ * Key Features:
+ * - Events from accounts whose DID method is not supported are skipped
+ * - Events that cannot concern the labeler are skipped before queueing,
+ *   so the queue only holds work for the labeler
+ * - Relevant events are tracked by the checkpointer until processing
+ *   finishes
+ * - Once the queue sheds an event, later events are dropped too until the
+ *   queue has drained; the source is then rewound to the checkpoint, so
+ *   the dropped events are replayed rather than lost
+ * - Events that were already processed successfully are skipped
+ */
+import { CommitEvent } from 'jetstream';
+import * as log from '@std/log';
+import { CursorCheckpointer } from './checkpoint.ts';
+import { SubjectQueue } from './queue.ts';
+import { EventCache } from './event_cache.ts';
+import { Telemetry } from './telemetry.ts';
+import { HealthMonitor } from './health.ts';
+import { DidSchema, SubjectDidSchema } from './schemas.ts';
+
+/**
+ * Queues received events for processing through the labeler.
+ */
+export class EventDispatcher {
+	private readonly logger = log.getLogger();
+	private rewinding = false;
+
+	/**
+	 * @param checkpointer - The CursorCheckpointer tracking in-flight events
+	 * @param queue - The SubjectQueue serializing work per subject
+	 * @param eventCache - The EventCache used to skip already processed events
+	 * @param telemetry - The Telemetry counting events and processing latency
+	 * @param health - The HealthMonitor tracking when the last event arrived
+	 * @param rewind - Delivers the events after the checkpoint again
+	 */
+	constructor(
+		private readonly checkpointer: CursorCheckpointer,
+		private readonly queue: SubjectQueue,
+		private readonly eventCache: EventCache,
+		private readonly telemetry: Telemetry,
+		private readonly health: HealthMonitor,
+		private readonly rewind: () => Promise<void>,
+	) {}
+
+	/**
+	 * Queues an event for processing if it concerns the labeler
+	 *
+	 * @param event - The received event
+	 * @param prepare - Returns the processing of the event, or null if the
+	 *   event does not concern the labeler
+	 */
+	dispatch(
+		event: CommitEvent<string>,
+		prepare: () => (() => Promise<unknown>) | null,
+	): void {
+		const collection = event.commit.collection;
+		this.health.markEvent();
+		this.telemetry.eventsReceived.inc({
+			collection,
+			operation: event.commit.operation,
+		});
+		if (!SubjectDidSchema.safeParse(event.did).success) {
+			this.logger.debug(
+				`Skipping ${event.commit.operation} event from unsupported DID ${event.did}`,
+			);
+			this.telemetry.eventsUnsupported.inc({
+				collection,
+				method: DidSchema.safeParse(event.did).success
+					? event.did.split(':')[1]
+					: 'invalid',
+			});
+			this.checkpointer.skip(event.time_us);
+			return;
+		}
+
+		const process = prepare();
+		if (!process) {
+			this.checkpointer.skip(event.time_us);
+			return;
+		}
+
+		// Processing it now would overtake the events dropped before it
+		if (this.rewinding) {
+			this.checkpointer.drop(event.time_us);
+			return;
+		}
+
+		this.checkpointer.begin(event.time_us);
+		const accepted = this.queue.enqueue(event.did, async () => {
+			try {
+				const eventId = generateEventId(event);
+				if (this.eventCache.has(eventId)) {
+					this.logger.debug(`Skipping duplicate event: ${eventId}`);
+					this.telemetry.eventsDeduplicated.inc({ collection });
+					return;
+				}
+
+				const started = performance.now();
+				try {
+					await process();
+				} finally {
+					this.telemetry.processingSeconds.observe(
+						{ collection },
+						(performance.now() - started) / 1000,
+					);
+				}
+				await this.eventCache.add(eventId, event.time_us);
+			} catch (error) {
+				this.logger.error(
+					`Error processing ${event.commit.operation} event: ${
+						error instanceof Error ? error.message : String(error)
+					}`,
+				);
+			} finally {
+				this.checkpointer.complete(event.time_us);
+			}
+		});
+
+		if (!accepted) {
+			this.logger.warn(
+				`Ingestion queue full (${this.queue.depth}), dropping ${event.commit.operation} event from ${event.did} ` +
+					'until it is replayed from the checkpoint',
+			);
+			this.checkpointer.drop(event.time_us);
+			this.replayDropped();
+		}
+	}
+
+	/**
+	 * Waits for the queue to drain, then rewinds the source to the
+	 * checkpoint so the dropped events are delivered again
+	 */
+	private replayDropped(): void {
+		if (this.rewinding) {
+			return;
+		}
+		this.rewinding = true;
+
+		this.queue.onIdle()
+			.then(() => {
+				this.checkpointer.rewind();
+				return this.rewind();
+			})
+			.catch((error) => {
+				this.logger.error(
+					`Failed to replay dropped events: ${
+						error instanceof Error ? error.message : String(error)
+					}`,
+				);
+			})
+			.finally(() => {
+				this.rewinding = false;
+			});
+	}
+}
+
+/**
+ * Generates a unique identifier for event deduplication.
+ * Combines the record's AT-URI with its CID, or with the operation for
+ * deletes, so a replayed event always maps to the same identifier.
+ *
+ * @param event - The Jetstream event requiring a unique identifier
+ * @returns A unique string identifier for the event
+ */
+function generateEventId(event: CommitEvent<string>): string {
+	const { collection, rkey, operation } = event.commit;
+	const uri = `at://${event.did}/${collection}/${rkey}`;
+	return 'cid' in event.commit
+		? `${uri}#${event.commit.cid}`
+		: `${uri}#${operation}`;
+}
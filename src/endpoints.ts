@@ -0,0 +1,147 @@
+/**
+ * Jetstream endpoint pool
+ * Tracks the health of each configured Jetstream endpoint and decides
+ * which one to connect to.
+ *
+ * - The active endpoint is kept until it fails repeatedly
+ * - On failover, healthy endpoints are preferred in configured order
+ * - Unhealthy endpoints become eligible again after a cooldown
+ * - Time is read from an injectable clock
+ */
+import * as log from '@std/log';
+import { ConfigurationError } from './errors.ts';
+
+/** Time after which an unhealthy endpoint may be tried again (5 minutes) */
+const DEFAULT_COOLDOWN = 300000;
+
+/**
+ * The observed health of one endpoint.
+ */
+export interface EndpointHealth {
+	url: string;
+	healthy: boolean;
+	/** Failures since the last successful connection */
+	consecutiveFailures: number;
+	lastFailureAt: number | null;
+	lastSuccessAt: number | null;
+}
+
+/**
+ * Holds the configured endpoints and rotates between them on failure.
+ */
+export class EndpointPool {
+	private readonly logger = log.getLogger();
+	private readonly endpoints: EndpointHealth[];
+	private activeIndex = 0;
+
+	/**
+	 * @param urls - The endpoints, in order of preference
+	 * @param failoverThreshold - Consecutive failures before rotating away
+	 * @param cooldown - Time before an unhealthy endpoint is retried, in milliseconds
+	 * @param now - Clock returning the current time in milliseconds
+	 * @throws {ConfigurationError} If no endpoints are given
+	 */
+	constructor(
+		urls: readonly string[],
+		private readonly failoverThreshold: number,
+		private readonly cooldown = DEFAULT_COOLDOWN,
+		private readonly now: () => number = Date.now,
+	) {
+		if (urls.length === 0) {
+			throw new ConfigurationError(
+				'At least one Jetstream endpoint is required',
+			);
+		}
+		this.endpoints = urls.map((url) => ({
+			url,
+			healthy: true,
+			consecutiveFailures: 0,
+			lastFailureAt: null,
+			lastSuccessAt: null,
+		}));
+	}
+
+	/**
+	 * The endpoint to connect to
+	 */
+	get active(): string {
+		return this.endpoints[this.activeIndex].url;
+	}
+
+	/**
+	 * A snapshot of the health of every endpoint
+	 */
+	get health(): EndpointHealth[] {
+		return this.endpoints.map((endpoint) => ({ ...endpoint }));
+	}
+
+	/**
+	 * Records a successful connection to the active endpoint
+	 */
+	recordSuccess(): void {
+		const endpoint = this.endpoints[this.activeIndex];
+		endpoint.healthy = true;
+		endpoint.consecutiveFailures = 0;
+		endpoint.lastSuccessAt = this.now();
+	}
+
+	/**
+	 * Records a failed or dropped connection to the active endpoint, and
+	 * rotates to another endpoint once the failover threshold is reached.
+	 *
+	 * @returns true if the active endpoint changed
+	 */
+	recordFailure(): boolean {
+		const endpoint = this.endpoints[this.activeIndex];
+		endpoint.consecutiveFailures++;
+		endpoint.lastFailureAt = this.now();
+
+		if (endpoint.consecutiveFailures < this.failoverThreshold) {
+			return false;
+		}
+
+		endpoint.healthy = false;
+		const next = this.select();
+		if (next === this.activeIndex) {
+			return false;
+		}
+
+		this.logger.warn(
+			`Jetstream endpoint ${endpoint.url} failed ${endpoint.consecutiveFailures} times, ` +
+				`failing over to ${this.endpoints[next].url}`,
+		);
+		this.activeIndex = next;
+		this.endpoints[next].consecutiveFailures = 0;
+		return true;
+	}
+
+	/**
+	 * Picks the next endpoint after the active one that is healthy or has
+	 * cooled down, or the one that failed longest ago if none is.
+	 */
+	private select(): number {
+		const now = this.now();
+		const count = this.endpoints.length;
+		for (let offset = 1; offset <= count; offset++) {
+			const index = (this.activeIndex + offset) % count;
+			const endpoint = this.endpoints[index];
+			if (
+				endpoint.healthy ||
+				now - (endpoint.lastFailureAt ?? 0) >= this.cooldown
+			) {
+				return index;
+			}
+		}
+
+		let oldest = this.activeIndex;
+		this.endpoints.forEach((endpoint, index) => {
+			if (
+				(endpoint.lastFailureAt ?? 0) <
+					(this.endpoints[oldest].lastFailureAt ?? 0)
+			) {
+				oldest = index;
+			}
+		});
+		return oldest;
+	}
+}
@@ -140,3 +140,22 @@ export class MetricsError extends Error {
 		this.name = 'MetricsError';
 	}
 }
+
+/**
+ * Error thrown when there's an issue with the label registry.
+ * Used for failures in seeding, reading, or updating registry entries,
+ * or when an entry conflicts with existing ones.
+ *
+ * See registry.ts for usage in label registry operations.
+ *
+ * @example
+ * ```ts
+ * throw new RegistryError('Label pvp already belongs to category faction');
+ * ```
+ */
+export class RegistryError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'RegistryError';
+	}
+}
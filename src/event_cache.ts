@@ -0,0 +1,166 @@
+/**
+ * Event deduplication cache
+ * Remembers recently processed events so replays do not re-emit labels.
+ *
+ * Key Features:
+ * - Events are identified by their record AT-URI and CID
+ * - Entries expire by the event's Jetstream time_us, once they fall a fixed
+ *   window behind the checkpoint cursor, so a replay after any downtime is
+ *   still covered
+ * - The cache is bounded in size, and eviction is O(1) per entry, relying
+ *   on Map insertion order
+ * - Optionally persists the recent window to Deno KV to survive restarts
+ */
+import * as log from '@std/log';
+import { KvError } from './errors.ts';
+
+/**
+ * Options for the EventCache class.
+ */
+export interface EventCacheOptions {
+	/** Maximum number of remembered events */
+	maxSize: number;
+	/**
+	 * How far behind the checkpoint cursor an event is remembered, in
+	 * milliseconds of event time
+	 */
+	ttl: number;
+	/** KV store to persist the recent window to, if any */
+	kv?: Deno.Kv;
+}
+
+/**
+ * Bounded set of processed event IDs, windowed by event time.
+ */
+export class EventCache {
+	private readonly logger = log.getLogger();
+	private readonly entries = new Map<string, number>();
+
+	constructor(private readonly options: EventCacheOptions) {}
+
+	/**
+	 * Number of events currently remembered
+	 */
+	get size(): number {
+		return this.entries.size;
+	}
+
+	/**
+	 * Restores the persisted window from KV, if persistence is enabled
+	 *
+	 * @param cursor - The cursor processing resumes from, in microseconds
+	 * @throws {KvError} If the persisted entries cannot be read
+	 */
+	async load(cursor: number): Promise<void> {
+		if (!this.options.kv) {
+			return;
+		}
+
+		try {
+			let restored = 0;
+			for await (
+				const entry of this.options.kv.list({
+					start: ['dedup', this.cutoff(cursor)],
+					end: ['dedup', Number.MAX_SAFE_INTEGER],
+				})
+			) {
+				const [, timeUs, eventId] = entry.key;
+				this.remember(eventId as string, timeUs as number);
+				restored++;
+			}
+			this.logger.info(`Restored ${restored} processed event IDs`);
+		} catch (error) {
+			const msg = `Failed to restore processed events: ${
+				error instanceof Error ? error.message : String(error)
+			}`;
+			this.logger.error(msg);
+			throw new KvError(msg);
+		}
+	}
+
+	/**
+	 * Checks whether an event has already been processed
+	 */
+	has(eventId: string): boolean {
+		return this.entries.has(eventId);
+	}
+
+	/**
+	 * Records an event as processed
+	 *
+	 * @param eventId - The event identifier
+	 * @param timeUs - The Jetstream time_us of the event
+	 */
+	async add(eventId: string, timeUs: number): Promise<void> {
+		this.remember(eventId, timeUs);
+
+		if (this.options.kv) {
+			try {
+				await this.options.kv.set(['dedup', timeUs, eventId], true);
+			} catch (error) {
+				this.logger.warn(
+					`Failed to persist processed event ${eventId}: ${
+						error instanceof Error ? error.message : String(error)
+					}`,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Evicts entries that fell out of the window behind the cursor,
+	 * including persisted ones
+	 *
+	 * @param cursor - The checkpoint cursor, in microseconds
+	 */
+	async cleanup(cursor: number): Promise<void> {
+		const cutoff = this.cutoff(cursor);
+		for (const [eventId, timeUs] of this.entries) {
+			if (timeUs >= cutoff) {
+				break;
+			}
+			this.entries.delete(eventId);
+		}
+
+		if (this.options.kv) {
+			try {
+				for await (
+					const entry of this.options.kv.list({
+						start: ['dedup'],
+						end: ['dedup', cutoff],
+					})
+				) {
+					await this.options.kv.delete(entry.key);
+				}
+			} catch (error) {
+				this.logger.warn(
+					`Failed to prune processed events: ${
+						error instanceof Error ? error.message : String(error)
+					}`,
+				);
+			}
+		}
+	}
+
+	/**
+	 * The oldest event time remembered for a cursor, in microseconds
+	 */
+	private cutoff(cursor: number): number {
+		return cursor - this.options.ttl * 1000;
+	}
+
+	private remember(eventId: string, timeUs: number): void {
+		// Re-inserting moves the entry to the end; events are processed close
+		// to time order, so the Map stays close to time order too
+		this.entries.delete(eventId);
+		this.entries.set(eventId, timeUs);
+
+		while (this.entries.size > this.options.maxSize) {
+			const oldest = this.entries.keys().next().value;
+			if (oldest === undefined) {
+				break;
+			}
+			this.entries.delete(oldest);
+		}
+	}
+}
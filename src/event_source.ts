@@ -0,0 +1,366 @@
+/**
+ * Event sources
+ * Deliver Jetstream commit events to the pipeline, so it can run against
+ * the live firehose or against recorded traffic.
+ *
+ * - JetstreamSource: the live Jetstream, managed by the connection Handler
+ * - FileReplaySource: replays an NDJSON file of recorded Jetstream events,
+ *   optionally sped up and limited to a cursor range
+ * - Recorded files hold one Jetstream event per line, exactly as sent on
+ *   the wire; account and identity events are skipped
+ * - See mock_jetstream.ts for serving a recording over a local WebSocket
+ */
+import { CommitCreateEvent, CommitDeleteEvent, Jetstream } from 'jetstream';
+import * as log from '@std/log';
+import { z } from 'zod';
+import { JetstreamError } from './errors.ts';
+import {
+	RecordedCreateEventSchema,
+	RecordedDeleteEventSchema,
+} from './schemas.ts';
+import { Handler } from './handler.ts';
+import { Clock, systemClock } from './clock.ts';
+
+/** Listener for created records of one collection */
+export type CreateListener = (event: CommitCreateEvent<string>) => void;
+
+/** Listener for deleted records of one collection */
+export type DeleteListener = (event: CommitDeleteEvent<string>) => void;
+
+/**
+ * A source of commit events for the configured trigger collections.
+ */
+export interface EventSource {
+	/** Whether the source is currently delivering events */
+	readonly connected: boolean;
+	/** Where events come from, e.g. an endpoint URL or a file path */
+	readonly description: string;
+	/** Resolves once a finite source delivered all of its events */
+	readonly finished?: Promise<void>;
+
+	onCreate(collection: string, listener: CreateListener): void;
+	onDelete(collection: string, listener: DeleteListener): void;
+	start(): Promise<void>;
+	shutdown(): Promise<void>;
+	/**
+	 * Delivers the events after the checkpointed cursor again, if the
+	 * source can replay them
+	 */
+	rewind?(): Promise<void>;
+}
+
+/**
+ * A Jetstream event as recorded from the wire, with the fields needed to
+ * route and filter it.
+ */
+export interface RecordedEvent {
+	did: string;
+	time_us: number;
+	kind: string;
+	commit?: {
+		operation: string;
+		collection: string;
+		rkey: string;
+	};
+}
+
+/**
+ * The live Jetstream, connected and reconnected by the Handler.
+ */
+export class JetstreamSource implements EventSource {
+	/**
+	 * @param jetstream - The Jetstream instance to subscribe with
+	 * @param handler - The Handler managing the Jetstream connection
+	 */
+	constructor(
+		private readonly jetstream: Jetstream<string, string>,
+		private readonly handler: Handler,
+	) {}
+
+	get connected(): boolean {
+		return this.handler.connected;
+	}
+
+	get description(): string {
+		return this.handler.endpoint;
+	}
+
+	onCreate(collection: string, listener: CreateListener): void {
+		this.jetstream.onCreate(collection, listener);
+	}
+
+	onDelete(collection: string, listener: DeleteListener): void {
+		this.jetstream.onDelete(collection, listener);
+	}
+
+	start(): Promise<void> {
+		return this.handler.start();
+	}
+
+	shutdown(): Promise<void> {
+		return this.handler.shutdown();
+	}
+
+	rewind(): Promise<void> {
+		return this.handler.restart();
+	}
+}
+
+/**
+ * Options for replaying a recording.
+ */
+export interface ReplayOptions {
+	/**
+	 * Replay speed relative to the recorded timing, e.g. 10 for ten times
+	 * as fast, or 0 to deliver events as fast as possible
+	 */
+	speed?: number;
+	/** Skip events at or before this cursor (time_us) */
+	fromCursor?: number;
+	/** Stop after events at this cursor (time_us) */
+	toCursor?: number;
+	/**
+	 * Awaited before each event, so a replay faster than real time can wait
+	 * for the pipeline instead of overflowing its queue
+	 */
+	backpressure?: () => Promise<void> | void;
+	/** The clock pacing the replay */
+	clock?: Clock;
+}
+
+/**
+ * Replays recorded Jetstream events from an NDJSON file.
+ */
+export class FileReplaySource implements EventSource {
+	private readonly logger = log.getLogger();
+	private readonly createListeners = new Map<string, CreateListener[]>();
+	private readonly deleteListeners = new Map<string, DeleteListener[]>();
+	private readonly clock: Clock;
+	private running = false;
+	private stopped = false;
+	private wake: (() => void) | null = null;
+	private resolveFinished!: () => void;
+	private delivered = 0;
+
+	readonly finished: Promise<void>;
+
+	/**
+	 * @param path - The NDJSON file to replay
+	 * @param options - Replay speed, cursor range and clock
+	 */
+	constructor(
+		private readonly path: string,
+		private readonly options: ReplayOptions = {},
+	) {
+		this.clock = options.clock ?? systemClock;
+		this.finished = new Promise((resolve) => this.resolveFinished = resolve);
+	}
+
+	get connected(): boolean {
+		return this.running;
+	}
+
+	get description(): string {
+		return `file://${this.path}`;
+	}
+
+	onCreate(collection: string, listener: CreateListener): void {
+		this.createListeners.set(collection, [
+			...this.createListeners.get(collection) ?? [],
+			listener,
+		]);
+	}
+
+	onDelete(collection: string, listener: DeleteListener): void {
+		this.deleteListeners.set(collection, [
+			...this.deleteListeners.get(collection) ?? [],
+			listener,
+		]);
+	}
+
+	/**
+	 * Opens the recording and starts replaying it in the background
+	 *
+	 * @throws {JetstreamError} If the recording cannot be opened
+	 */
+	async start(): Promise<void> {
+		if (this.running) {
+			return;
+		}
+
+		let file: Deno.FsFile;
+		try {
+			file = await Deno.open(this.path);
+		} catch (error) {
+			const msg = `Failed to open recording ${this.path}: ${
+				error instanceof Error ? error.message : String(error)
+			}`;
+			this.logger.error(msg);
+			throw new JetstreamError(msg);
+		}
+
+		this.running = true;
+		this.logger.info(`Replaying recorded events from ${this.path}`);
+		this.replay(readRecordedEvents(file.readable))
+			.catch((error) => {
+				this.logger.error(
+					`Replay of ${this.path} failed: ${
+						error instanceof Error ? error.message : String(error)
+					}`,
+				);
+			})
+			.finally(() => {
+				this.running = false;
+				this.logger.info(
+					`Replay of ${this.path} finished after ${this.delivered} events`,
+				);
+				this.resolveFinished();
+			});
+	}
+
+	/**
+	 * Stops the replay after the event being delivered
+	 */
+	async shutdown(): Promise<void> {
+		this.stopped = true;
+		this.wake?.();
+		if (this.running) {
+			await this.finished;
+		}
+	}
+
+	private async replay(events: AsyncIterable<RecordedEvent>): Promise<void> {
+		const { speed = 0, fromCursor, toCursor, backpressure } = this.options;
+		let previous: number | null = null;
+
+		for await (const event of events) {
+			if (this.stopped) {
+				break;
+			}
+			if (fromCursor !== undefined && event.time_us <= fromCursor) {
+				continue;
+			}
+			if (toCursor !== undefined && event.time_us > toCursor) {
+				break;
+			}
+			if (speed > 0 && previous !== null && event.time_us > previous) {
+				await this.sleep((event.time_us - previous) / 1000 / speed);
+				if (this.stopped) {
+					break;
+				}
+			}
+			previous = event.time_us;
+			await backpressure?.();
+			this.deliver(event);
+		}
+	}
+
+	private deliver(event: RecordedEvent): void {
+		if (event.kind !== 'commit' || !event.commit) {
+			return;
+		}
+		const { operation, collection } = event.commit;
+		if (operation === 'create') {
+			const listeners = this.createListeners.get(collection) ?? [];
+			const commit = listeners.length > 0
+				? this.validate(RecordedCreateEventSchema, event)
+				: null;
+			if (commit) {
+				listeners.forEach((listener) => listener(commit));
+				this.delivered++;
+			}
+		} else if (operation === 'delete') {
+			const listeners = this.deleteListeners.get(collection) ?? [];
+			const commit = listeners.length > 0
+				? this.validate(RecordedDeleteEventSchema, event)
+				: null;
+			if (commit) {
+				listeners.forEach((listener) => listener(commit));
+				this.delivered++;
+			}
+		}
+	}
+
+	/**
+	 * Validates a recorded commit against what the live Jetstream client
+	 * delivers, so listeners get the same guarantees from a recording.
+	 * Invalid commits are logged and skipped.
+	 */
+	private validate<T>(
+		schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+		event: RecordedEvent,
+	): T | null {
+		const result = schema.safeParse(event);
+		if (!result.success) {
+			this.logger.warn(
+				`Skipping invalid ${event.commit?.operation} commit at ${event.time_us}: ${
+					result.error.errors.map((e) => `${e.path.join('.')} ${e.message}`)
+						.join(', ')
+				}`,
+			);
+			return null;
+		}
+		return result.data;
+	}
+
+	private sleep(ms: number): Promise<void> {
+		return new Promise((resolve) => {
+			const timer = this.clock.setTimeout(() => {
+				this.wake = null;
+				resolve();
+			}, ms);
+			this.wake = () => {
+				this.clock.clearTimeout(timer);
+				this.wake = null;
+				resolve();
+			};
+		});
+	}
+}
+
+/**
+ * Reads recorded Jetstream events from an NDJSON stream, one per line.
+ * Blank lines are skipped; lines that are not events are logged and skipped.
+ *
+ * @param stream - The raw NDJSON bytes
+ */
+export async function* readRecordedEvents(
+	stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<RecordedEvent> {
+	const logger = log.getLogger();
+	let buffer = '';
+	let lineNumber = 0;
+
+	const parse = (line: string): RecordedEvent | null => {
+		lineNumber++;
+		if (line.trim() === '') {
+			return null;
+		}
+		try {
+			const event = JSON.parse(line);
+			if (
+				typeof event?.did === 'string' &&
+				typeof event.time_us === 'number' &&
+				typeof event.kind === 'string'
+			) {
+				return event as RecordedEvent;
+			}
+			logger.warn(`Skipping line ${lineNumber}: not a Jetstream event`);
+		} catch {
+			logger.warn(`Skipping line ${lineNumber}: invalid JSON`);
+		}
+		return null;
+	};
+
+	for await (const chunk of stream.pipeThrough(new TextDecoderStream())) {
+		buffer += chunk;
+		const lines = buffer.split('\n');
+		buffer = lines.pop()!;
+		for (const line of lines) {
+			const event = parse(line);
+			if (event) yield event;
+		}
+	}
+	const event = parse(buffer);
+	if (event) yield event;
+}
@@ -4,8 +4,11 @@
  *
  * This module provides a robust connection management system with features for:
  * - Preventing multiple concurrent connection attempts
- * - Implementing exponential backoff with jitter for reconnection attempts
+ * - Delaying reconnection attempts by a configurable reconnect policy
  * - Managing connection state and cleanup
+ * - Forcing a reconnect when an open connection stops delivering events
+ * - Reconnecting from the last checkpoint on request, to replay events
+ * - Failing over between several Jetstream endpoints
  * - Providing proper error handling and logging
  * - Ensuring graceful shutdown with proper resource cleanup
  *
@@ -16,6 +19,43 @@
 import { Jetstream } from 'jetstream';
 import * as log from '@std/log';
 import { JetstreamError } from './errors.ts';
+import { Telemetry } from './telemetry.ts';
+import { StallWatchdog } from './watchdog.ts';
+import { Clock, systemClock } from './clock.ts';
+import { EndpointPool } from './endpoints.ts';
+import { ExponentialBackoff, ReconnectPolicy } from './reconnect.ts';
+
+/** Time to wait for the socket to close before forcing it (5 seconds) */
+const DEFAULT_SHUTDOWN_TIMEOUT = 5000;
+
+/**
+ * Optional collaborators and settings for the Handler.
+ */
+export interface HandlerOptions {
+	/**
+	 * Provider of the cursor to connect from, so reconnects resume from the
+	 * last checkpoint rather than the last received event
+	 */
+	resumeCursor?: () => number | undefined;
+	/** Telemetry counting reconnection attempts */
+	telemetry?: Telemetry;
+	/**
+	 * Time without events after which the connection is considered stalled
+	 * and reconnected, in milliseconds, or 0 to disable
+	 */
+	stallTimeout?: number;
+	/** The clock driving the stall watchdog and the reconnect timers */
+	clock?: Clock;
+	/** The endpoints to fail over between */
+	endpoints?: EndpointPool;
+	/**
+	 * Decides the delay before each reconnection attempt, exponential
+	 * backoff with an immediate first retry by default
+	 */
+	reconnectPolicy?: ReconnectPolicy;
+	/** Time to wait for the socket to close before forcing it, in milliseconds */
+	shutdownTimeout?: number;
+}
 
 /**
  * Manages Jetstream WebSocket connections with automatic reconnection handling.
@@ -24,7 +64,10 @@ import { JetstreamError } from './errors.ts';
  *
  * The Handler class takes responsibility for:
  * - Single connection state management
- * - Exponential backoff with jitter for reconnection
+ * - Reconnection delayed by a pluggable reconnect policy
+ * - Stall detection, reconnecting from the last checkpoint
+ * - Replaying from the last checkpoint on request
+ * - Endpoint failover, carrying the cursor over to the new endpoint
  * - Resource cleanup on shutdown
  * - Comprehensive error handling and logging
  * - Graceful shutdown coordination
@@ -36,21 +79,60 @@ export class Handler {
 	private isConnected = false;
 	private shouldReconnect = true;
 	private isShuttingDown = false;
+	/** Whether the handler is closing the socket itself, to reconnect */
+	private isClosing = false;
 	private reconnectAttempt = 0;
 	private closePromiseResolve: (() => void) | null = null;
 	private handlersRegistered = false;
+	private readonly resumeCursor?: () => number | undefined;
+	private readonly telemetry?: Telemetry;
+	private readonly endpoints?: EndpointPool;
+	private readonly watchdog: StallWatchdog | null;
+	private readonly clock: Clock;
+	private readonly reconnectPolicy: ReconnectPolicy;
+	private readonly shutdownTimeout: number;
+	private readonly touch = () => this.watchdog?.touch();
 
-	private readonly MAX_EXPONENTIAL_ATTEMPTS = 6;
-	private readonly SHUTDOWN_TIMEOUT = 5000;
-	private readonly BASE_DELAY = 30000;
-	private readonly MAX_DELAY = 600000;
 	private readonly CONNECTION_EVENTS = ['open', 'error', 'close'] as const;
+	private readonly ACTIVITY_EVENTS = ['commit', 'account', 'identity'] as const;
 
 	public get connected(): boolean {
 		return this.isConnected;
 	}
 
-	constructor(private readonly jetstream: Jetstream<string, string>) {
+	/**
+	 * The endpoint currently connected to, or being connected to
+	 */
+	public get endpoint(): string {
+		return this.jetstream.url.origin + this.jetstream.url.pathname;
+	}
+
+	/**
+	 * @param jetstream - The Jetstream instance to manage
+	 * @param options - Optional collaborators and settings
+	 */
+	constructor(
+		private readonly jetstream: Jetstream<string, string>,
+		options: HandlerOptions = {},
+	) {
+		this.resumeCursor = options.resumeCursor;
+		this.telemetry = options.telemetry;
+		this.endpoints = options.endpoints;
+		this.clock = options.clock ?? systemClock;
+		this.reconnectPolicy = options.reconnectPolicy ??
+			new ExponentialBackoff(1000, 600000);
+		this.shutdownTimeout = options.shutdownTimeout ??
+			DEFAULT_SHUTDOWN_TIMEOUT;
+		this.watchdog = options.stallTimeout
+			? new StallWatchdog(
+				options.stallTimeout,
+				(idle) => void this.restartStalled(idle),
+				this.clock,
+			)
+			: null;
+		if (this.endpoints) {
+			this.useEndpoint(this.endpoints.active);
+		}
 		this.initializeEventHandlers();
 	}
 
@@ -64,20 +146,146 @@ export class Handler {
 			this.isConnecting = true;
 			this.shouldReconnect = true;
 			await this.connect();
+			this.watchdog?.start();
 		} finally {
 			this.isConnecting = false;
 		}
 	}
 
+	/**
+	 * Reconnects from the last checkpointed cursor, so events received since
+	 * the checkpoint are delivered again. Skipped while a connection attempt
+	 * or a scheduled reconnect is already underway, as those resume from
+	 * the checkpoint too.
+	 */
+	public async restart(): Promise<void> {
+		if (this.reconnecting || this.isShuttingDown) {
+			return;
+		}
+
+		this.logger.info(
+			`[${
+				new Date().toISOString()
+			}] Reconnecting from the last checkpoint to replay dropped events`,
+		);
+		await this.reconnect();
+	}
+
+	/**
+	 * Reconnects a connection that stopped delivering events, resuming
+	 * from the last checkpointed cursor. Skipped while a connection attempt
+	 * or a scheduled reconnect is already underway.
+	 *
+	 * @param idle - How long no events arrived, in milliseconds
+	 */
+	private async restartStalled(idle: number): Promise<void> {
+		if (this.reconnecting || this.isShuttingDown) {
+			return;
+		}
+
+		this.logger.warn(
+			`[${new Date().toISOString()}] No Jetstream events for ${
+				Math.round(idle / 1000)
+			}s, forcing reconnect from the last checkpoint`,
+		);
+		this.telemetry?.reconnectAttempts.inc();
+		await this.reconnect();
+	}
+
+	/**
+	 * Whether a connection attempt or a scheduled reconnect is underway
+	 */
+	private get reconnecting(): boolean {
+		return this.isConnecting || this.reconnectTimeout !== null;
+	}
+
+	/**
+	 * Closes the open connection and connects again from the resume cursor
+	 */
+	private async reconnect(): Promise<void> {
+		try {
+			this.isConnecting = true;
+			// Not connected any more, so the close event schedules no reconnect
+			this.isConnected = false;
+			await this.closeSocket();
+			await this.connect();
+		} finally {
+			this.isConnecting = false;
+		}
+	}
+
+	/**
+	 * Closes the current socket and waits for its close event, or for the
+	 * shutdown timeout if the socket does not close cleanly. The close is
+	 * not counted as a failure of the endpoint.
+	 */
+	private closeSocket(): Promise<void> {
+		this.isClosing = true;
+		return new Promise<void>((resolve) => {
+			const timer = this.clock.setTimeout(resolve, this.shutdownTimeout);
+			this.jetstream.once('close', () => {
+				this.clock.clearTimeout(timer);
+				resolve();
+			});
+			try {
+				this.jetstream.close();
+			} catch (error) {
+				this.logger.error(
+					`Error closing connection: ${
+						error instanceof Error ? error.message : String(error)
+					}`,
+				);
+				this.clock.clearTimeout(timer);
+				resolve();
+			}
+		}).finally(() => {
+			this.isClosing = false;
+		});
+	}
+
+	/**
+	 * Disposes of the socket of a previous connection. Jetstream opens a new
+	 * socket on every start, and the old one would keep retrying on its own.
+	 * Its handlers are detached first, so a late close event of the old
+	 * socket is not taken for the new connection closing.
+	 */
+	private disposeSocket(): void {
+		const socket = this.jetstream.ws;
+		if (!socket) {
+			return;
+		}
+		socket.onopen = null;
+		socket.onclose = null;
+		socket.onerror = null;
+		socket.onmessage = null;
+		try {
+			socket.close();
+		} catch (error) {
+			this.logger.error(
+				`Error closing previous connection: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+		}
+		this.jetstream.ws = undefined;
+	}
+
 	private async connect(): Promise<void> {
 		try {
 			this.cleanup();
+			this.disposeSocket();
 			if (!this.handlersRegistered) {
 				this.initializeEventHandlers();
 			}
+			const cursor = this.resumeCursor?.();
+			if (cursor) {
+				this.logger.debug(`Connecting from checkpointed cursor ${cursor}`);
+				this.jetstream.cursor = cursor;
+			}
 			await this.jetstream.start();
 		} catch (error) {
 			this.isConnected = false;
+			this.recordFailure();
 			await this.handleConnectionError(error);
 		}
 	}
@@ -89,45 +297,72 @@ export class Handler {
 
 		this.isShuttingDown = true;
 		this.shouldReconnect = false;
+		this.watchdog?.stop();
 		this.cleanup();
 
 		return new Promise<void>((resolve) => {
-			const forceClose = () => {
-				this.logger.warn('Forcing connection closure after timeout');
+			const finish = () => {
+				this.clock.clearTimeout(shutdownTimer);
 				this.cleanup();
 				// Only remove all listeners during complete shutdown
 				this.jetstream.removeAllListeners();
 				resolve();
 			};
 
-			const shutdownTimer = setTimeout(forceClose, 2000);
+			const shutdownTimer = this.clock.setTimeout(() => {
+				this.logger.warn('Forcing connection closure after timeout');
+				finish();
+			}, this.shutdownTimeout);
 
 			try {
+				// The close handler was removed by cleanup, so wait for it here
+				this.jetstream.once('close', finish);
 				this.jetstream.close();
-
-				const gracefulClose = () => {
-					clearTimeout(shutdownTimer);
-					this.cleanup();
-					// Only remove all listeners during complete shutdown
-					this.jetstream.removeAllListeners();
-					resolve();
-				};
-
-				setTimeout(gracefulClose, this.SHUTDOWN_TIMEOUT);
 			} catch (error) {
 				this.logger.error(
 					`Error during shutdown: ${
 						error instanceof Error ? error.message : String(error)
 					}`,
 				);
-				forceClose();
+				finish();
 			}
 		});
 	}
 
+	/**
+	 * Points the Jetstream instance at another endpoint, keeping the query
+	 * (wanted collections) of the current one. The cursor is set on connect.
+	 */
+	private useEndpoint(endpoint: string): void {
+		const url = new URL(endpoint);
+		url.search = this.jetstream.url.search;
+		this.jetstream.url = url;
+	}
+
+	/**
+	 * Records a failed or dropped connection, switching endpoints once the
+	 * active one failed repeatedly. The underlying socket reads the URL on
+	 * every retry, so the switch also applies to retries already underway.
+	 *
+	 * @returns true if the endpoint changed
+	 */
+	private recordFailure(): boolean {
+		if (!this.endpoints?.recordFailure()) {
+			return false;
+		}
+		this.useEndpoint(this.endpoints.active);
+		this.reconnectAttempt = 0;
+		this.logger.info(
+			`[${
+				new Date().toISOString()
+			}] Active Jetstream endpoint is now ${this.endpoint}`,
+		);
+		return true;
+	}
+
 	private cleanup(): void {
 		if (this.reconnectTimeout !== null) {
-			clearTimeout(this.reconnectTimeout);
+			this.clock.clearTimeout(this.reconnectTimeout);
 			this.reconnectTimeout = null;
 		}
 		if (this.handlersRegistered) {
@@ -135,22 +370,13 @@ export class Handler {
 			for (const event of this.CONNECTION_EVENTS) {
 				this.jetstream.removeAllListeners(event);
 			}
+			for (const event of this.ACTIVITY_EVENTS) {
+				this.jetstream.off(event, this.touch);
+			}
 			this.handlersRegistered = false;
 		}
 	}
 
-	private calculateDelay(): number {
-		if (this.reconnectAttempt >= this.MAX_EXPONENTIAL_ATTEMPTS) {
-			return this.MAX_DELAY;
-		}
-
-		const progress = this.reconnectAttempt / this.MAX_EXPONENTIAL_ATTEMPTS;
-		const baseDelay = this.BASE_DELAY +
-			(this.MAX_DELAY - this.BASE_DELAY) * progress;
-		const jitter = Math.random() * 1000;
-		return Math.min(baseDelay + jitter, this.MAX_DELAY);
-	}
-
 	private handleConnectionError(error: unknown): Promise<void> {
 		if (this.isConnecting || this.reconnectTimeout !== null) {
 			return Promise.resolve();
@@ -170,18 +396,19 @@ export class Handler {
 			`[${new Date().toISOString()}] Connection failed: ${errorMessage}`,
 		);
 
-		const delay = this.calculateDelay();
+		const delay = this.reconnectPolicy.nextDelay(this.reconnectAttempt);
 		this.reconnectAttempt++;
+		this.telemetry?.reconnectAttempts.inc();
 
 		const now = new Date();
 		const reconnectTime = new Date(now.getTime() + delay);
 		this.logger.info(
 			`[${now.toISOString()}] Scheduling reconnection for ${reconnectTime.toISOString()} ` +
-				`(in ${Math.floor(delay / 1000)}s, attempt ${this.reconnectAttempt})`,
+				`(in ${(delay / 1000).toFixed(1)}s, attempt ${this.reconnectAttempt})`,
 		);
 
 		return new Promise<void>((resolve) => {
-			this.reconnectTimeout = setTimeout(() => {
+			this.reconnectTimeout = this.clock.setTimeout(() => {
 				this.reconnectTimeout = null;
 
 				if (this.shouldReconnect && !this.isShuttingDown) {
@@ -206,14 +433,20 @@ export class Handler {
 			return;
 		}
 
+		for (const event of this.ACTIVITY_EVENTS) {
+			this.jetstream.on(event, this.touch);
+		}
+
 		this.jetstream.on('open', () => {
+			this.watchdog?.touch();
+			this.endpoints?.recordSuccess();
 			if (!this.isConnected) {
 				this.isConnected = true;
 				this.reconnectAttempt = 0;
 				this.logger.info(
 					`[${
 						new Date().toISOString()
-					}] Connected to Jetstream with cursor ${this.jetstream.cursor}`,
+					}] Connected to Jetstream at ${this.endpoint} with cursor ${this.jetstream.cursor}`,
 				);
 			}
 		});
@@ -229,6 +462,10 @@ export class Handler {
 			const wasConnected = this.isConnected;
 			this.isConnected = false;
 
+			if (!this.isShuttingDown && !this.isClosing) {
+				this.recordFailure();
+			}
+
 			if (wasConnected) {
 				this.logger.info(
 					`[${new Date().toISOString()}] Jetstream connection closed`,
@@ -0,0 +1,123 @@
+/**
+ * Health and readiness reporting
+ * Runs component checks and reports their status for the /healthz and
+ * /readyz endpoints.
+ *
+ * - Liveness (/healthz) covers the components whose failure a restart
+ *   can fix, such as an unreachable KV store
+ * - Readiness (/readyz) covers every component, including the Jetstream
+ *   connection, the age of the last event and the ATP session
+ * - Checks run concurrently and time out, so a hung component reports as
+ *   failed instead of hanging the probe
+ */
+import * as log from '@std/log';
+
+/** How long a single check may take before it counts as failed */
+const CHECK_TIMEOUT = 2000;
+
+/**
+ * The status of one component.
+ */
+export interface ComponentStatus {
+	ok: boolean;
+	/** What was observed, e.g. an error message or an age */
+	detail?: string;
+}
+
+/**
+ * A named check of one component.
+ */
+export interface HealthCheck {
+	name: string;
+	/** Whether the check counts towards liveness, not only readiness */
+	liveness: boolean;
+	check: () => Promise<ComponentStatus> | ComponentStatus;
+}
+
+/**
+ * The combined status of all checked components.
+ */
+export interface HealthReport {
+	status: 'ok' | 'degraded';
+	components: Record<string, ComponentStatus>;
+}
+
+/**
+ * Holds the component checks and tracks when the last event arrived.
+ */
+export class HealthMonitor {
+	private readonly logger = log.getLogger();
+	private readonly checks: HealthCheck[] = [];
+	private lastEventAt: number;
+
+	/**
+	 * @param now - Clock returning the current time in milliseconds
+	 */
+	constructor(private readonly now: () => number = Date.now) {
+		this.lastEventAt = now();
+	}
+
+	/**
+	 * Adds a component check
+	 */
+	register(check: HealthCheck): void {
+		this.checks.push(check);
+	}
+
+	/**
+	 * Records that an event was received from Jetstream
+	 */
+	markEvent(): void {
+		this.lastEventAt = this.now();
+	}
+
+	/**
+	 * Milliseconds since the last event, or since startup if none arrived
+	 */
+	get sinceLastEvent(): number {
+		return this.now() - this.lastEventAt;
+	}
+
+	/**
+	 * Runs the checks for liveness or readiness.
+	 * The report is degraded if any of the checks fails.
+	 *
+	 * @param probe - Which checks to run
+	 */
+	async report(probe: 'liveness' | 'readiness'): Promise<HealthReport> {
+		const checks = this.checks.filter((check) =>
+			probe === 'readiness' || check.liveness
+		);
+		const results = await Promise.all(checks.map((check) => this.run(check)));
+
+		const components: Record<string, ComponentStatus> = {};
+		checks.forEach((check, i) => components[check.name] = results[i]);
+		const ok = results.every((result) => result.ok);
+		if (!ok) {
+			this.logger.debug(`${probe} degraded: ${JSON.stringify(components)}`);
+		}
+		return { status: ok ? 'ok' : 'degraded', components };
+	}
+
+	private async run(check: HealthCheck): Promise<ComponentStatus> {
+		let timer: number | undefined;
+		try {
+			return await Promise.race([
+				Promise.resolve(check.check()),
+				new Promise<ComponentStatus>((resolve) => {
+					timer = setTimeout(
+						() => resolve({ ok: false, detail: 'check timed out' }),
+						CHECK_TIMEOUT,
+					);
+				}),
+			]);
+		} catch (error) {
+			return {
+				ok: false,
+				detail: error instanceof Error ? error.message : String(error),
+			};
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+}
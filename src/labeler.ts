@@ -3,19 +3,125 @@
  * Manages the automatic assignment and removal of labels based on user interactions.
  *
  * Key Features:
- * - One label active per user at any time
- * - Label assignment through post interactions (likes)
- * - Automatic removal of previous labels when new ones are assigned
- * - Decommission post that removes all labels
+ * - One label active per category per user, categories stack
+ * - Label assignment through configurable triggers (likes, reposts, follows)
+ * - Label transitions decided by declarative rules (see rules.ts)
+ * - Runtime label registry, so label posts can change without a restart
+ * - Removal posts that remove all labels, or those in one category
+ * - Deleting a trigger record removes the label it granted
+ * - Shadow mode, journaling the labels it would emit instead of emitting them
+ * - Administrative label changes, emitted and counted like any other
+ * - Every decision recorded in the audit log, with its source event
  */
 import { AtpAgent } from 'atproto';
 import { LabelerServer } from 'skyware';
 import { CONFIG } from './config.ts';
-import { LABELS } from './labels.ts';
-import { DidSchema, RkeySchema, SigningKeySchema } from './schemas.ts';
+import {
+	LabelerDidSchema,
+	LabelIdentifier,
+	LabelIdentifierSchema,
+	NsidSchema,
+	RkeySchema,
+	Rule,
+	SigningKeySchema,
+	SubjectDidSchema,
+} from './schemas.ts';
 import { AtpError, LabelingError, ServerError } from './errors.ts';
 import * as log from '@std/log';
 import { MetricsTracker } from './metrics.ts';
+import { TriggerTracker } from './triggers.ts';
+import {
+	activeLabels,
+	LabelRow,
+	reconcileMetrics,
+	ReconcileReport,
+	recoverMetrics,
+} from './reconcile.ts';
+import { LabelRegistry } from './registry.ts';
+import { Telemetry } from './telemetry.ts';
+import { ShadowJournal, TriggerOutcome } from './shadow.ts';
+import { applyOperations, AuditLog, AuditSource } from './audit.ts';
+import {
+	Decision,
+	evaluateRules,
+	LabelOperation,
+	RuleContext,
+} from './rules_engine.ts';
+
+/** Minimum time between ATP session checks against the PDS (1 minute) */
+const SESSION_CHECK_INTERVAL = 60000;
+
+/**
+ * Rules for labels applied by an administrator: like a label post, the
+ * label replaces the active label in its category
+ */
+const ADMIN_RULES: readonly Rule[] = [
+	{ name: 'admin-apply', match: {}, conditions: [], action: 'replace' },
+];
+
+/**
+ * What a trigger record points at.
+ * - post: a post by the labeler, identified by its record key
+ * - grant: the labeler account itself, granting a default label
+ */
+export type TriggerTarget =
+	| { type: 'post'; rkey: string }
+	| { type: 'grant'; identifier: string };
+
+/**
+ * A trigger record created by a user, as received from the event stream.
+ */
+export interface TriggerEvent {
+	/** The DID of the user who created the trigger record */
+	subject: string;
+	/** The collection of the trigger record (e.g. app.bsky.feed.like) */
+	collection: string;
+	/** The record key of the trigger record */
+	rkey: string;
+	/** What the trigger record points at */
+	target: TriggerTarget;
+	/** The CID of the trigger record */
+	cid?: string;
+	/** The Jetstream time_us of the event */
+	timeUs?: number;
+}
+
+/**
+ * A decision about a subject's labels, for telemetry, the shadow journal
+ * and the audit log.
+ */
+interface Outcome {
+	actor: 'event' | 'admin';
+	/** The collection of the trigger record, for event decisions */
+	collection?: string;
+	subject: string;
+	source?: AuditSource;
+	outcome: TriggerOutcome;
+	rule?: string | null;
+	/** Active labels before the decision, if they were read */
+	previous?: LabelIdentifier[];
+	operations?: LabelOperation[];
+}
+
+/**
+ * A label database entry for a subject, as shown to administrators.
+ */
+export interface LabelHistoryEntry {
+	val: LabelIdentifier;
+	neg: boolean;
+	/** Creation time, as an ISO timestamp */
+	cts: string;
+}
+
+/**
+ * A page of the subjects holding a label.
+ */
+export interface LabelHoldersPage {
+	/** Number of subjects holding the label */
+	total: number;
+	/** The subjects on this page, ordered by DID */
+	subjects: string[];
+}
 
 /**
  * Main class for handling labeling operations.
@@ -25,15 +131,32 @@ export class Labeler {
 	private readonly logger: log.Logger;
 	private labelerServer: LabelerServer;
 	private agent: AtpAgent;
+	private sessionCheckedAt = 0;
+	private started = false;
 
 	/**
 	 * Private constructor for the Labeler class.
 	 *
-	 * @param metricsTracker - The Deno KV store to use for metrics tracking
+	 * @param metrics - The MetricsTracker to use for label counts
+	 * @param triggers - The TriggerTracker recording which trigger granted which label
+	 * @param rules - The ordered rules deciding label transitions
+	 * @param registry - The LabelRegistry mapping posts to labels
+	 * @param telemetry - The Telemetry counting trigger outcomes
+	 * @param shadow - The ShadowJournal to record decisions and labels in
+	 *   instead of emitting labels, or null to emit them
+	 * @param audit - The AuditLog to record decisions in, or null to skip it
 	 */
-	constructor(private readonly metrics: MetricsTracker) {
+	constructor(
+		private readonly metrics: MetricsTracker,
+		private readonly triggers: TriggerTracker,
+		private readonly rules: readonly Rule[],
+		private readonly registry: LabelRegistry,
+		private readonly telemetry: Telemetry,
+		private readonly shadow: ShadowJournal | null = null,
+		private readonly audit: AuditLog | null = null,
+	) {
 		this.logger = log.getLogger();
-		const validatedDID = DidSchema.parse(CONFIG.DID);
+		const validatedDID = LabelerDidSchema.parse(CONFIG.DID);
 		const validatedSigningKey = SigningKeySchema.parse(CONFIG.SIGNING_KEY);
 		this.labelerServer = new LabelerServer({
 			did: validatedDID,
@@ -66,6 +189,7 @@ export class Labeler {
 
 		try {
 			await this.labelerServer.start(CONFIG.PORT);
+			this.started = true;
 			this.logger.info('LabelerServer started successfully');
 		} catch (error) {
 			await this.agent.logout();
@@ -78,169 +202,692 @@ export class Labeler {
 	}
 
 	/**
-	 * Handles post interaction (like) events from users.
+	 * Whether labels are journaled instead of emitted
+	 */
+	get shadowMode(): boolean {
+		return this.shadow !== null;
+	}
+
+	/**
+	 * Whether the LabelerServer is accepting connections
+	 */
+	get listening(): boolean {
+		return this.labelerServer.app.server.listening;
+	}
+
+	/**
+	 * Verifies the ATP session with the PDS, at most once per
+	 * SESSION_CHECK_INTERVAL, refreshing it if the access token expired.
+	 *
+	 * @returns true if the session is valid
+	 */
+	async checkSession(): Promise<boolean> {
+		if (!this.agent.hasSession) {
+			return false;
+		}
+		if (Date.now() - this.sessionCheckedAt < SESSION_CHECK_INTERVAL) {
+			return true;
+		}
+		try {
+			await this.agent.com.atproto.server.getSession();
+			this.sessionCheckedAt = Date.now();
+			return true;
+		} catch (error) {
+			this.logger.warn(
+				`ATP session check failed: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+			return false;
+		}
+	}
+
+	/**
+	 * Handles trigger events from users, such as likes, reposts or follows.
 	 *
-	 * Behavior:
-	 * 1. If user likes the decommission post (REMOVAL_RKEY), their current label is removed
-	 * 2. If user likes a labeled post:
-	 *    - If they have no label, they receive the new label
-	 *    - If they have a different label, old label is negated and new label applied
-	 *    - If they have the same label, no action is taken
-	 * 3. Self-labeling is prevented
+	 * The trigger is classified as targeting a label post, a removal post
+	 * or granting a label, using the label registry, and the rules decide
+	 * which labels to apply or negate. With the built-in rules:
+	 * 1. A removal post removes every active label, or those in its category
+	 * 2. A label post replaces the active label in its category, or is a
+	 *    no-op if already active; labels in other categories are kept
+	 * 3. A granted label only applies to users without a label in its category
 	 *
-	 * @param subject - The DID of the user who liked the post
-	 * @param rkey - The record key of the post that was liked
+	 * Self-labeling is prevented. Triggers that leave a label active are
+	 * recorded so that deleting them can undo it.
+	 *
+	 * @param trigger - The trigger event to handle
+	 * @returns The decision made by the rules, or null if the trigger was skipped
 	 * @throws {LabelingError} If label operations fail
 	 */
-	async handleLike(subject: string, rkey: string): Promise<void> {
-		const validatedSubject = DidSchema.parse(subject);
-		const validatedRkey = RkeySchema.parse(rkey);
+	async handleTrigger(trigger: TriggerEvent): Promise<Decision | null> {
+		const validatedSubject = SubjectDidSchema.parse(trigger.subject);
+		const validatedCollection = NsidSchema.parse(trigger.collection);
+		const validatedRkey = RkeySchema.parse(trigger.rkey);
+		const source: AuditSource = {
+			uri: `at://${validatedSubject}/${validatedCollection}/${validatedRkey}`,
+			cid: trigger.cid,
+			timeUs: trigger.timeUs,
+			operation: 'create',
+		};
 
 		// Prevent self-labeling
 		if (validatedSubject === CONFIG.DID) {
 			this.logger.info(`Self-labeling blocked for ${validatedSubject}`);
-			return;
+			await this.recordOutcome({
+				actor: 'event',
+				collection: validatedCollection,
+				subject: validatedSubject,
+				source,
+				outcome: 'self-blocked',
+			});
+			return null;
 		}
 
 		try {
-			// Check if this is the removal post
-			if (validatedRkey === CONFIG.REMOVAL_RKEY) {
-				await this.removeCurrentLabel(validatedSubject);
-				return;
+			let context: Omit<RuleContext, 'active' | 'categoryOf'>;
+			if (trigger.target.type === 'post') {
+				const validatedPostRkey = RkeySchema.parse(trigger.target.rkey);
+				const entry = await this.registry.get(validatedPostRkey);
+
+				if (entry?.type === 'removal') {
+					context = {
+						kind: 'removal-post',
+						collection: validatedCollection,
+						rkey: validatedPostRkey,
+						category: entry.category,
+					};
+				} else if (entry?.type === 'label') {
+					context = {
+						kind: 'label-post',
+						collection: validatedCollection,
+						rkey: validatedPostRkey,
+						label: entry.identifier,
+					};
+				} else {
+					this.logger.info(
+						`No label mapping found for post ${validatedPostRkey}`,
+					);
+					await this.recordOutcome({
+						actor: 'event',
+						collection: validatedCollection,
+						subject: validatedSubject,
+						source,
+						outcome: 'unmapped',
+					});
+					return null;
+				}
+			} else {
+				context = {
+					kind: 'grant',
+					collection: validatedCollection,
+					label: LabelIdentifierSchema.parse(trigger.target.identifier),
+				};
 			}
 
-			// Find the label for this post
-			const newLabel = LABELS.find((label) => label.rkey === validatedRkey);
-			if (!newLabel) {
-				this.logger.info(`No label mapping found for post ${validatedRkey}`);
-				return;
+			// Get all currently active labels
+			const active = await this.getCurrentLabels(validatedSubject);
+			const categories = await this.registry.categories();
+
+			const decision = evaluateRules(this.rules, {
+				...context,
+				active,
+				categoryOf: (identifier) => categories.get(identifier),
+			});
+			this.logger.info(
+				`Rule ${decision.rule?.name ?? '(none)'} decided ${decision.action} ` +
+					`for ${validatedCollection} by ${validatedSubject}`,
+			);
+
+			await this.emit(
+				validatedSubject,
+				decision.operations,
+				context.kind === 'removal-post',
+			);
+
+			if (decision.granted) {
+				await this.triggers.record(
+					validatedSubject,
+					validatedCollection,
+					validatedRkey,
+					decision.granted,
+				);
 			}
 
-			// Get current label if any
-			const currentLabel = await this.getCurrentLabel(validatedSubject);
+			await this.recordOutcome({
+				actor: 'event',
+				collection: validatedCollection,
+				subject: validatedSubject,
+				source,
+				outcome: decision.operations.length === 0
+					? 'no-op'
+					: decision.operations.some((op) => !op.neg)
+					? 'applied'
+					: 'negated',
+				rule: decision.rule?.name ?? null,
+				previous: active,
+				operations: decision.operations,
+			});
 
-			// Skip if the same label is already active
-			if (currentLabel?.val === newLabel.identifier && !currentLabel.neg) {
-				this.logger.info(
-					`Label ${newLabel.identifier} already active for ${validatedSubject}`,
+			return decision;
+		} catch (error) {
+			const errorMessage = error instanceof Error
+				? error.message
+				: String(error);
+			this.logger.error(`Error handling trigger:`, errorMessage);
+			throw new LabelingError(
+				`Failed to process ${validatedCollection} for ${validatedSubject}: ${errorMessage}`,
+			);
+		}
+	}
+
+	/**
+	 * Handles trigger deletion events (unlike, un-repost, unfollow) from users.
+	 *
+	 * Behavior:
+	 * 1. If the trigger record never granted a label, it is ignored and no
+	 *    decision is journaled or audited
+	 * 2. If the label it granted is still active, the label is negated
+	 * 3. If the user has since switched to another label, no action is taken
+	 *
+	 * @param subject - The DID of the user who deleted the trigger record
+	 * @param collection - The collection of the deleted record
+	 * @param rkey - The record key of the deleted record
+	 * @param timeUs - The Jetstream time_us of the deletion event
+	 * @throws {LabelingError} If label operations fail
+	 */
+	async handleTriggerDeletion(
+		subject: string,
+		collection: string,
+		rkey: string,
+		timeUs?: number,
+	): Promise<void> {
+		const validatedSubject = SubjectDidSchema.parse(subject);
+		const validatedCollection = NsidSchema.parse(collection);
+		const validatedRkey = RkeySchema.parse(rkey);
+
+		try {
+			const identifier = await this.triggers.take(
+				validatedSubject,
+				validatedCollection,
+				validatedRkey,
+			);
+			if (!identifier) {
+				this.logger.debug(
+					`No label recorded for ${validatedCollection} ${validatedSubject}/${validatedRkey}`,
 				);
 				return;
 			}
 
-			// If they have a different label, negate it first
-			if (currentLabel?.val && !currentLabel.neg) {
-				await this.labelerServer.createLabel({
-					uri: validatedSubject,
-					val: currentLabel.val,
-					neg: true,
-					src: this.labelerServer.did,
-				});
+			const deletion = {
+				actor: 'event',
+				collection: validatedCollection,
+				subject: validatedSubject,
+				source: {
+					uri:
+						`at://${validatedSubject}/${validatedCollection}/${validatedRkey}`,
+					timeUs,
+					operation: 'delete',
+				},
+			} as const;
+
+			const active = await this.getCurrentLabels(validatedSubject);
+			if (!active.includes(identifier)) {
 				this.logger.info(
-					`Negated existing label ${currentLabel.val} for ${validatedSubject}`,
+					`Label ${identifier} no longer active for ${validatedSubject}`,
 				);
-				await this.metrics.decrementLabel(currentLabel.val);
+				await this.recordOutcome({
+					...deletion,
+					outcome: 'no-op',
+					previous: active,
+				});
+				return;
 			}
 
-			// Apply the new label
-			await this.labelerServer.createLabel({
-				uri: validatedSubject,
-				val: newLabel.identifier,
-				src: this.labelerServer.did,
+			const operations = [{ val: identifier, neg: true }];
+			await this.emit(validatedSubject, operations);
+			await this.recordOutcome({
+				...deletion,
+				outcome: 'negated',
+				previous: active,
+				operations,
 			});
-
-			await this.metrics.incrementLabel(newLabel.identifier);
 			this.logger.info(
-				`Applied label ${newLabel.identifier} to ${validatedSubject}`,
+				`Removed label ${identifier} from ${validatedSubject} after ${validatedCollection} deletion`,
 			);
 		} catch (error) {
 			const errorMessage = error instanceof Error
 				? error.message
 				: String(error);
-			this.logger.error(`Error handling like:`, errorMessage);
+			this.logger.error(`Error handling trigger deletion:`, errorMessage);
 			throw new LabelingError(
-				`Failed to process like for ${validatedSubject}: ${errorMessage}`,
+				`Failed to process ${validatedCollection} deletion for ${validatedSubject}: ${errorMessage}`,
 			);
 		}
 	}
 
 	/**
-	 * Retrieves the current label state for a given DID.
+	 * Whether a trigger record granted a label that deleting it could undo.
+	 * Reads the in-memory index of the trigger records, so it can be used
+	 * to discard deletions before they are queued.
 	 *
-	 * @param did - The DID to check
-	 * @returns Current label value and negation state, or null if no label exists
+	 * @param subject - The DID of the user who created the trigger record
+	 * @param collection - The collection of the trigger record
+	 * @param rkey - The record key of the trigger record
+	 */
+	tracksTrigger(subject: string, collection: string, rkey: string): boolean {
+		return this.triggers.has(subject, collection, rkey);
+	}
+
+	/**
+	 * Applies a label to a subject on behalf of an administrator.
+	 * Like a label post, the label replaces the active label in its
+	 * category, and is a no-op if already active.
+	 *
+	 * @param subject - The DID to label
+	 * @param identifier - The label to apply, as known to the registry
+	 * @returns The operations emitted, empty if the label was already active
+	 * @throws {LabelingError} If the label is unknown or emitting fails
+	 */
+	async applyLabel(
+		subject: string,
+		identifier: string,
+	): Promise<LabelOperation[]> {
+		const validatedSubject = SubjectDidSchema.parse(subject);
+		const validatedIdentifier = LabelIdentifierSchema.parse(identifier);
+
+		const categories = await this.registry.categories();
+		if (!categories.has(validatedIdentifier)) {
+			throw new LabelingError(`Unknown label: ${validatedIdentifier}`);
+		}
+
+		const active = await this.getCurrentLabels(validatedSubject);
+		const { operations } = evaluateRules(ADMIN_RULES, {
+			kind: 'label-post',
+			label: validatedIdentifier,
+			active,
+			categoryOf: (identifier) => categories.get(identifier),
+		});
+		await this.emitAdmin(validatedSubject, active, operations);
+		return operations;
+	}
+
+	/**
+	 * Negates a subject's active labels on behalf of an administrator.
+	 *
+	 * @param subject - The DID to remove labels from
+	 * @param identifier - The label to negate, or every active label if omitted
+	 * @returns The operations emitted, empty if no matching label was active
+	 * @throws {LabelingError} If emitting fails
+	 */
+	async negateLabels(
+		subject: string,
+		identifier?: string,
+	): Promise<LabelOperation[]> {
+		const validatedSubject = SubjectDidSchema.parse(subject);
+		const validatedIdentifier = identifier === undefined
+			? undefined
+			: LabelIdentifierSchema.parse(identifier);
+
+		const active = await this.getCurrentLabels(validatedSubject);
+		const operations = active
+			.filter((label) =>
+				validatedIdentifier === undefined || label === validatedIdentifier
+			)
+			.map((val) => ({ val, neg: true }));
+		await this.emitAdmin(validatedSubject, active, operations);
+		return operations;
+	}
+
+	/**
+	 * Retrieves the labels a subject currently holds
+	 *
+	 * @param subject - The DID to check
+	 * @returns Active label values, in the order they were applied
 	 */
-	private async getCurrentLabel(
-		did: string,
-	): Promise<{ val: string; neg: boolean } | null> {
+	currentLabels(subject: string): Promise<LabelIdentifier[]> {
+		return this.getCurrentLabels(SubjectDidSchema.parse(subject));
+	}
+
+	/**
+	 * Retrieves every label entry for a subject, oldest first
+	 *
+	 * @param subject - The DID to check
+	 * @throws {LabelingError} If the query fails
+	 */
+	async labelHistory(subject: string): Promise<LabelHistoryEntry[]> {
+		const validatedSubject = SubjectDidSchema.parse(subject);
 		try {
 			const query = await this.labelerServer.db.prepare(`
-				SELECT val, neg FROM labels
-				WHERE uri = ?
-				ORDER BY cts DESC
-				LIMIT 1
+				SELECT val, neg, cts FROM labels
+				WHERE uri = ? AND src = ?
+				ORDER BY cts ASC, id ASC
 			`);
+			const rows = await query.all(
+				validatedSubject,
+				this.labelerServer.did,
+			) as { val: string; neg: number; cts: string }[];
+			return rows.map((row) => ({
+				val: row.val,
+				neg: Boolean(row.neg),
+				cts: row.cts,
+			}));
+		} catch (error) {
+			const errorMessage = error instanceof Error
+				? error.message
+				: String(error);
+			this.logger.error(`Database query failed:`, errorMessage);
+			throw new LabelingError(
+				`Failed to fetch label history: ${errorMessage}`,
+			);
+		}
+	}
 
-			const result = await query.get(did) as
-				| { val: string; neg: boolean }
-				| undefined;
-			if (
-				!result || typeof result.val === 'undefined' ||
-				typeof result.neg === 'undefined'
-			) {
-				return null;
-			}
-
-			return {
-				val: result.val,
-				neg: Boolean(result.neg),
-			};
+	/**
+	 * Lists the subjects holding a label, one page at a time
+	 *
+	 * @param identifier - The label to list holders of
+	 * @param limit - The maximum number of subjects to return
+	 * @param offset - The number of subjects to skip
+	 * @throws {LabelingError} If the query fails
+	 */
+	async labelHolders(
+		identifier: string,
+		limit: number,
+		offset = 0,
+	): Promise<LabelHoldersPage> {
+		const validatedIdentifier = LabelIdentifierSchema.parse(identifier);
+		// A subject holds the label if its latest entry for it is not a negation
+		const holders = `
+			FROM labels AS l
+			WHERE val = ? AND src = ? AND neg = 0 AND id = (
+				SELECT MAX(id) FROM labels
+				WHERE uri = l.uri AND val = l.val AND src = l.src
+			)
+		`;
+		try {
+			const count = await this.labelerServer.db.prepare(
+				`SELECT COUNT(*) AS total ${holders}`,
+			);
+			const page = await this.labelerServer.db.prepare(
+				`SELECT uri ${holders} ORDER BY uri LIMIT ? OFFSET ?`,
+			);
+			const { total } = await count.get(
+				validatedIdentifier,
+				this.labelerServer.did,
+			) as { total: number };
+			const rows = await page.all(
+				validatedIdentifier,
+				this.labelerServer.did,
+				limit,
+				offset,
+			) as { uri: string }[];
+			return { total, subjects: rows.map((row) => row.uri) };
 		} catch (error) {
 			const errorMessage = error instanceof Error
 				? error.message
 				: String(error);
 			this.logger.error(`Database query failed:`, errorMessage);
-			throw new LabelingError(`Failed to fetch current label: ${errorMessage}`);
+			throw new LabelingError(
+				`Failed to fetch holders of ${validatedIdentifier}: ${errorMessage}`,
+			);
+		}
+	}
+
+	/**
+	 * Emits label operations requested by an administrator and audits
+	 * them, wrapping failures in a LabelingError
+	 */
+	private async emitAdmin(
+		subject: string,
+		previous: LabelIdentifier[],
+		operations: LabelOperation[],
+	): Promise<void> {
+		try {
+			await this.emit(subject, operations);
+			await this.recordOutcome({
+				actor: 'admin',
+				subject,
+				outcome: operations.length === 0
+					? 'no-op'
+					: operations.some((op) => !op.neg)
+					? 'applied'
+					: 'negated',
+				previous,
+				operations,
+			});
+			this.logger.info(
+				`Administrative label change for ${subject}: ${
+					operations.map((op) => `${op.neg ? '-' : '+'}${op.val}`).join(' ') ||
+					'none'
+				}`,
+			);
+		} catch (error) {
+			const errorMessage = error instanceof Error
+				? error.message
+				: String(error);
+			this.logger.error(`Administrative label change failed:`, errorMessage);
+			throw new LabelingError(
+				`Failed to change labels for ${subject}: ${errorMessage}`,
+			);
 		}
 	}
 
 	/**
-	 * Removes the current label from a user by creating a negation label.
-	 * Only removes the label if one is currently active.
+	 * Emits label operations for a subject and updates the metrics with them.
+	 * The metrics update is journaled first and committed once the labels
+	 * are emitted, so a crash in between is repaired by recoverMetrics.
+	 * If emitting fails partway, only the emitted operations are counted.
+	 * In shadow mode the operations are journaled instead, leaving the label
+	 * database and metrics untouched.
 	 *
-	 * @param did - The DID of the account to remove the label from
+	 * @param subject - The DID to label
+	 * @param operations - The labels to create or negate, in order
+	 * @param removal - Whether the operations come from a removal post
 	 */
-	private async removeCurrentLabel(did: string): Promise<void> {
+	private async emit(
+		subject: string,
+		operations: LabelOperation[],
+		removal = false,
+	): Promise<void> {
+		if (operations.length === 0) {
+			return;
+		}
+
+		if (this.shadow) {
+			await this.shadow.recordLabels(subject, operations);
+			for (const operation of operations) {
+				this.logger.info(
+					operation.neg
+						? `[shadow] Would negate label ${operation.val} for ${subject}`
+						: `[shadow] Would apply label ${operation.val} to ${subject}`,
+				);
+			}
+			return;
+		}
+
+		const update = await this.metrics.begin(subject, operations, removal);
+		const emitted: LabelOperation[] = [];
 		try {
-			const currentLabel = await this.getCurrentLabel(did);
+			for (const operation of operations) {
+				await this.labelerServer.createLabel({
+					uri: subject,
+					val: operation.val,
+					neg: operation.neg,
+					src: this.labelerServer.did,
+				});
+				emitted.push(operation);
+				this.logger.info(
+					operation.neg
+						? `Negated label ${operation.val} for ${subject}`
+						: `Applied label ${operation.val} to ${subject}`,
+				);
+			}
+		} catch (error) {
+			// The update stays journaled if this fails too, and is recovered on
+			// the next start; the emit failure is the one to report
+			await this.metrics.commit(update, emitted).catch((commitError) =>
+				this.logger.error(
+					`Failed to count ${emitted.length} labels emitted for ${subject}:`,
+					commitError instanceof Error ? commitError.message : commitError,
+				)
+			);
+			throw error;
+		}
+		await this.metrics.commit(update, emitted);
+	}
 
-			if (!currentLabel?.val || currentLabel.neg) {
-				this.logger.info(`No active label to remove for ${did}`);
-				return;
+	/**
+	 * Commits metrics updates left pending by a crash between emitting
+	 * labels and updating the metrics. Only the operations found in the
+	 * label database since the update was journaled are counted.
+	 *
+	 * @returns The number of pending updates recovered
+	 * @throws {LabelingError} If recovery fails
+	 */
+	async recoverMetrics(): Promise<number> {
+		try {
+			return await recoverMetrics(
+				this.labelerServer.db,
+				this.labelerServer.did,
+				this.metrics,
+			);
+		} catch (error) {
+			const errorMessage = error instanceof Error
+				? error.message
+				: String(error);
+			this.logger.error(`Metrics recovery failed:`, errorMessage);
+			throw new LabelingError(`Failed to recover metrics: ${errorMessage}`);
+		}
+	}
+
+	/**
+	 * Counts the outcome of a decision in the telemetry, and journals it in
+	 * shadow mode or records it in the audit log otherwise
+	 */
+	private async recordOutcome(
+		{
+			actor,
+			collection,
+			subject,
+			source,
+			outcome,
+			rule = null,
+			previous,
+			operations = [],
+		}: Outcome,
+	): Promise<void> {
+		if (collection) {
+			this.telemetry.triggerOutcomes.inc({ collection, outcome });
+		}
+		if (this.shadow) {
+			if (collection && source) {
+				await this.shadow.recordDecision({
+					at: new Date().toISOString(),
+					subject,
+					collection,
+					event: source.operation === 'create' ? 'trigger' : 'deletion',
+					rule,
+					outcome,
+					operations,
+				});
 			}
+			return;
+		}
+		await this.audit?.record({
+			subject,
+			actor,
+			source,
+			rule,
+			outcome,
+			previous: previous ?? null,
+			current: previous ? applyOperations(previous, operations) : null,
+			operations,
+		});
+	}
 
-			await this.labelerServer.createLabel({
-				uri: did,
-				val: currentLabel.val,
-				neg: true,
-			});
+	/**
+	 * Compares the metrics with the labels in the label database.
+	 *
+	 * @param fix - Whether to correct the metrics that differ
+	 * @returns The reconciliation report
+	 * @throws {MetricsError} If reconciliation fails
+	 */
+	reconcileMetrics(fix: boolean): Promise<ReconcileReport> {
+		return reconcileMetrics(
+			this.labelerServer.db,
+			this.labelerServer.did,
+			this.metrics,
+			{ fix },
+		);
+	}
 
-			await this.metrics.decrementLabel(currentLabel.val);
-			this.logger.info(`Removed label ${currentLabel.val} from ${did}`);
+	/**
+	 * Retrieves the set of active labels for a given DID.
+	 * A label is active if its most recent entry is not a negation.
+	 * In shadow mode, the journaled shadow labels are taken into account.
+	 *
+	 * @param did - The DID to check
+	 * @returns Active label values, in the order they were applied
+	 */
+	private async getCurrentLabels(did: string): Promise<LabelIdentifier[]> {
+		try {
+			const query = await this.labelerServer.db.prepare(`
+				SELECT uri, val, neg FROM labels
+				WHERE uri = ? AND src = ?
+				ORDER BY cts ASC, id ASC
+			`);
+
+			const rows = await query.all(
+				did,
+				this.labelerServer.did,
+			) as LabelRow[];
+			return activeLabels(
+				this.shadow ? await this.shadow.overlay(did, rows) : rows,
+			);
 		} catch (error) {
 			const errorMessage = error instanceof Error
 				? error.message
 				: String(error);
-			this.logger.error(`Error removing label:`, errorMessage);
+			this.logger.error(`Database query failed:`, errorMessage);
 			throw new LabelingError(
-				`Failed to remove label for ${did}: ${errorMessage}`,
+				`Failed to fetch current labels: ${errorMessage}`,
 			);
 		}
 	}
 
+	/**
+	 * Closes the label database without a full shutdown, for command line
+	 * tools that never started the server or logged in
+	 */
+	close(): void {
+		this.labelerServer.db.close();
+	}
+
 	/**
 	 * Performs graceful shutdown of the Labeler instance.
+	 * A Labeler that was never initialized, as in shadow mode or a replay,
+	 * only closes its label database.
 	 */
 	async shutdown(): Promise<void> {
+		if (this.shadow) {
+			try {
+				const report = await this.shadow.report();
+				this.logger.info(
+					`Shadow mode summary: ${report.decisions} decisions, ` +
+						`${report.subjects} users would have been labeled: ` +
+						JSON.stringify(report),
+				);
+			} catch {
+				// Logged by the journal; the report is available via the CLI
+			}
+		}
+
+		if (!this.started) {
+			this.close();
+			return;
+		}
+
 		const shutdownTasks = [
 			{
 				name: 'LabelerServer',
@@ -1,34 +1,85 @@
 /**
  * Label definitions
  *
- * This module defines the source of truth for available labels.
+ * This module defines the labels and removal posts the label registry is
+ * seeded with on first run. Afterwards the registry in Deno KV is the
+ * source of truth; manage it with the registry commands of the KV CLI.
  */
 
 /**
  * Readonly array of Label objects that are validated against the schema.
- * Each label is comprised of rkey, identifier, and category.
+ * Each label is comprised of rkey, identifier, category, and the definition
+ * published in the labeler service declaration.
+ *
+ * Labels in the same category are mutually exclusive: choosing one negates
+ * the others. Labels in different categories stack, so a user can hold a
+ * faction alongside, for example, a role label.
  */
 
 export const LABELS = [
 	{
 		rkey: '3l7jxzftheq2o',
 		identifier: 'pvp',
-		category: 'pvp',
+		category: 'faction',
+		definition: {
+			severity: 'inform',
+			blurs: 'none',
+			defaultSetting: 'warn',
+			adultOnly: false,
+			locales: [
+				{
+					lang: 'en',
+					name: 'PvP',
+					description: 'For the keyboard warriors who thrive in the trenches of the replies.',
+				},
+			],
+		},
 	},
 	{
 		rkey: '3l7jy25rx3t2s',
 		identifier: 'pve',
-		category: 'pve',
+		category: 'faction',
+		definition: {
+			severity: 'inform',
+			blurs: 'none',
+			defaultSetting: 'warn',
+			adultOnly: false,
+			locales: [
+				{
+					lang: 'en',
+					name: 'PvE',
+					description: 'For the users who just want to craft bits and not be bothered.',
+				},
+			],
+		},
 	},
 	{
 		rkey: '3l7jy2pqpz72p',
 		identifier: 'rp',
-		category: 'rp',
+		category: 'faction',
+		definition: {
+			severity: 'inform',
+			blurs: 'none',
+			defaultSetting: 'warn',
+			adultOnly: false,
+			locales: [
+				{
+					lang: 'en',
+					name: 'RP',
+					description: 'For those who found themselves on the wrong server.',
+				},
+			],
+		},
 	},
-	// rkey for label removal
+] as const;
+
+/**
+ * Readonly array of removal posts that are validated against the schema.
+ * Each removal post is comprised of rkey and an optional category; without
+ * a category, liking it removes every label.
+ */
+export const REMOVAL_POSTS = [
 	{
-		rkey: '3l7jy2zq3z2qo',
-		identifier: '',
-		category: '',
+		rkey: '3jzfcijpj2z2d',
 	},
 ] as const;
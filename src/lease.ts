@@ -0,0 +1,113 @@
+/**
+ * Service lease
+ * Records in Deno KV that a labeler is running and emitting labels, so
+ * maintenance commands that would race it, such as correcting the metrics
+ * from the label database, can refuse to run.
+ *
+ * Key Features:
+ * - The running labeler renews the lease on an interval
+ * - A lease that is not renewed lapses, so a crashed labeler only blocks
+ *   maintenance until the lease duration has passed
+ * - Released on shutdown
+ */
+import * as log from '@std/log';
+import { KvError } from './errors.ts';
+
+/** KV key of the lease */
+const LEASE_KEY = ['lease', 'labeler'];
+
+/** Interval for renewing the lease (10 seconds) */
+const RENEW_INTERVAL = 10000;
+
+/** Time a lease holds without being renewed (30 seconds) */
+const LEASE_DURATION = 30000;
+
+/**
+ * The labeler process holding the lease.
+ */
+export interface LeaseHolder {
+	pid: number;
+	renewedAt: string;
+}
+
+/**
+ * Holds or inspects the lease of the running labeler.
+ */
+export class ServiceLease {
+	private readonly logger = log.getLogger();
+	private renewInterval: number | null = null;
+
+	constructor(private readonly kv: Deno.Kv) {}
+
+	/**
+	 * Takes the lease and keeps renewing it until released
+	 *
+	 * @throws {KvError} If the lease cannot be written
+	 */
+	async acquire(): Promise<void> {
+		await this.renew();
+		this.renewInterval = setInterval(() => {
+			// Failures are logged and retried next interval
+			this.renew().catch(() => {});
+		}, RENEW_INTERVAL);
+	}
+
+	/**
+	 * Stops renewing the lease and deletes it
+	 */
+	async release(): Promise<void> {
+		if (this.renewInterval !== null) {
+			clearInterval(this.renewInterval);
+			this.renewInterval = null;
+		}
+		try {
+			await this.kv.delete(LEASE_KEY);
+		} catch (error) {
+			this.logger.warn(
+				`Failed to release the labeler lease: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+		}
+	}
+
+	/**
+	 * Gets the labeler holding the lease, or null if no lease is held
+	 *
+	 * @throws {KvError} If the lease cannot be read
+	 */
+	async holder(): Promise<LeaseHolder | null> {
+		try {
+			const entry = await this.kv.get<LeaseHolder>(LEASE_KEY);
+			if (
+				entry.value === null ||
+				Date.now() - Date.parse(entry.value.renewedAt) >= LEASE_DURATION
+			) {
+				return null;
+			}
+			return entry.value;
+		} catch (error) {
+			throw this.error('Failed to read the labeler lease', error);
+		}
+	}
+
+	private async renew(): Promise<void> {
+		try {
+			await this.kv.set(
+				LEASE_KEY,
+				{ pid: Deno.pid, renewedAt: new Date().toISOString() },
+				{ expireIn: LEASE_DURATION },
+			);
+		} catch (error) {
+			throw this.error('Failed to renew the labeler lease', error);
+		}
+	}
+
+	private error(message: string, error: unknown): KvError {
+		const msg = `${message}: ${
+			error instanceof Error ? error.message : String(error)
+		}`;
+		this.logger.error(msg);
+		return new KvError(msg);
+	}
+}
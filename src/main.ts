@@ -14,20 +14,45 @@
  */
 
 import { AtpAgent } from 'atproto';
-import { CommitCreateEvent, Jetstream } from 'jetstream';
-import { Labeler } from './labeler.ts';
+import { CommitCreateEvent, CommitDeleteEvent, Jetstream } from 'jetstream';
+import { Labeler, TriggerTarget } from './labeler.ts';
 import {
 	closeConfig,
 	CONFIG,
 	initializeConfig,
 	setConfigValue,
 } from './config.ts';
-import { DidSchema, RkeySchema } from './schemas.ts';
+import { CursorCheckpointer } from './checkpoint.ts';
+import { SubjectQueue } from './queue.ts';
+import { EventCache } from './event_cache.ts';
+import {
+	LikeRecordSchema,
+	PostUriSchema,
+	RkeySchema,
+	SubjectDidSchema,
+	TriggerAction,
+} from './schemas.ts';
 import { verifyKvStore } from '../scripts/kv_utils.ts';
-import { AtpError, JetstreamError } from './errors.ts';
+import { AtpError, ConfigurationError, JetstreamError } from './errors.ts';
 import * as log from '@std/log';
 import { MetricsTracker } from './metrics.ts';
+import { TriggerTracker } from './triggers.ts';
+import { SHADOW_PREFIX, ShadowJournal } from './shadow.ts';
+import { AuditLog } from './audit.ts';
+import { loadRules } from './rules_engine.ts';
+import { LabelRegistry } from './registry.ts';
 import { Handler } from './handler.ts';
+import { Telemetry, TelemetryServer } from './telemetry.ts';
+import { HealthMonitor } from './health.ts';
+import { EventDispatcher } from './dispatch.ts';
+import { ServiceLease } from './lease.ts';
+import { EndpointPool } from './endpoints.ts';
+import { createReconnectPolicy } from './reconnect.ts';
+import {
+	EventSource,
+	FileReplaySource,
+	JetstreamSource,
+} from './event_source.ts';
 
 /** Persistent key-value store for application state and data */
 const kv = await Deno.openKv();
@@ -38,43 +63,29 @@ const logger = log.getLogger();
 /** Interval for cleaning up expired events from the deduplication cache (1 minute) */
 const CACHE_CLEANUP_INTERVAL = 60000;
 
-/** Duration to retain processed events in the cache (5 minutes) */
-const EVENT_RETENTION_DURATION = 180000;
+/** How far behind the checkpoint processed events are remembered (10 minutes) */
+const EVENT_RETENTION_DURATION = 600000;
 
-/**
- * Manages a bounded cache of processed events with automatic cleanup.
- * Uses event IDs that contain cursor information for efficient deduplication.
- */
-class EventCache {
-	private cache = new Set<string>();
-	private readonly maxSize = 10000;
-
-	add(eventId: string): void {
-		if (this.cache.size >= this.maxSize) {
-			const firstEntry = Array.from(this.cache)[0];
-			if (firstEntry) {
-				this.cache.delete(firstEntry);
-			}
-		}
-		this.cache.add(eventId);
-	}
+/** Maximum number of processed events kept in the cache */
+const EVENT_CACHE_SIZE = 100000;
 
-	has(eventId: string): boolean {
-		return this.cache.has(eventId);
-	}
+/** Interval for reporting ingestion queue depth (1 minute) */
+const QUEUE_REPORT_INTERVAL = 60000;
 
-	cleanup(minCursor: number): void {
-		for (const eventId of this.cache) {
-			const [, , cursorStr] = eventId.split(':');
-			const cursor = parseInt(cursorStr);
-			if (cursor < minCursor) {
-				this.cache.delete(eventId);
-			}
-		}
-	}
-}
+/** Time without Jetstream events after which the stream counts as stalled (5 minutes) */
+const EVENT_STALE_THRESHOLD = 300000;
 
-const eventCache = new EventCache();
+/** Interval for folding old hourly activity metrics into daily ones (1 hour) */
+const METRICS_ROLLUP_INTERVAL = 3600000;
+
+/** Interval for pruning expired audit log entries (1 day) */
+const AUDIT_PRUNE_INTERVAL = 86400000;
+
+/**
+ * Time the event source may take to shut down beyond SHUTDOWN_TIMEOUT,
+ * after which its connection has already been forced closed (2 seconds)
+ */
+const SHUTDOWN_GRACE_PERIOD = 2000;
 
 /**
  * Main function orchestrating the application lifecycle.
@@ -83,8 +94,9 @@ const eventCache = new EventCache();
  * This function:
  * 1. Initializes and validates configuration
  * 2. Sets up and verifies the KV store
- * 3. Authenticates with ATP
- * 4. Establishes Jetstream connection
+ * 3. Authenticates with ATP and starts the labeler server, unless in
+ *    shadow mode
+ * 4. Establishes the Jetstream connection, or replays a recording
  * 5. Sets up event processing and monitoring
  *
  * @throws {AtpError} If ATP initialization or authentication fails
@@ -93,82 +105,245 @@ const eventCache = new EventCache();
 async function main() {
 	try {
 		await initializeConfig();
-		if (!(await verifyKvStore())) {
+		if (!(await verifyKvStore(kv))) {
 			throw new Error('KV store verification failed');
 		}
 		logger.info('KV store verified successfully');
 
-		// Ensure cursor is properly initialized
-		const expectedCursor = Date.now() * 1000;
-		if (CONFIG.CURSOR < expectedCursor) {
-			logger.info(
-				`Cursor needs update. Current: ${CONFIG.CURSOR}, setting to: ${expectedCursor} (${
-					new Date(expectedCursor / 1000).toISOString()
-				})`,
-			);
-			await setConfigValue('CURSOR', expectedCursor);
-		} else {
-			logger.info(
-				`Cursor is current: ${CONFIG.CURSOR} (${
-					new Date(CONFIG.CURSOR / 1000).toISOString()
-				})`,
-			);
-		}
+		// Replays and shadow runs leave the stored cursor alone, so live
+		// processing resumes where it left off afterwards
+		const persistCursor = CONFIG.EVENT_SOURCE.type === 'jetstream' &&
+			!CONFIG.SHADOW_MODE;
+		// Resume from the stored cursor, clamped to the replay window
+		const startCursor = CONFIG.EVENT_SOURCE.type === 'jetstream'
+			? await resolveStartCursor(persistCursor)
+			: CONFIG.CURSOR;
 
 		// Initialize core services
 		const agent = new AtpAgent({ service: CONFIG.BSKY_URL });
 		const metrics = new MetricsTracker(kv);
-		const labeler = new Labeler(metrics);
-
-		// Validate required authentication configuration
-		if (!CONFIG.BSKY_HANDLE || !CONFIG.BSKY_PASSWORD) {
-			throw new AtpError(
-				'BSKY_HANDLE and BSKY_PASSWORD must be set in the configuration',
+		await metrics.init();
+		const telemetry = new Telemetry();
+		telemetry.labelTotals.collect(async () =>
+			Object.entries(await metrics.getLabelMetrics()).map((
+				[label, count],
+			) => [{ label }, count])
+		);
+		// Shadow mode keeps its own trigger records and journals its labels.
+		// A replayed recording always runs in shadow mode, so it never emits
+		// labels, counts metrics or writes the audit log.
+		const replay = CONFIG.EVENT_SOURCE.type === 'file';
+		const shadow = CONFIG.SHADOW_MODE || replay ? new ShadowJournal(kv) : null;
+		const triggers = shadow
+			? new TriggerTracker(kv, [...SHADOW_PREFIX, 'triggers'])
+			: new TriggerTracker(kv);
+		await triggers.load();
+		if (shadow) {
+			logger.warn(
+				'Shadow mode: labels are journaled, not emitted (see deno task shadow:report)',
 			);
 		}
+		const rules = await loadRules(CONFIG.RULES_PATH);
+		logger.info(
+			`Loaded ${rules.length} rules from ${CONFIG.RULES_PATH || 'rules.ts'}`,
+		);
+		const registry = new LabelRegistry(kv);
+		await registry.seed();
+		const audit = new AuditLog(kv);
+		const labeler = new Labeler(
+			metrics,
+			triggers,
+			rules,
+			registry,
+			telemetry,
+			shadow,
+			audit,
+		);
+
+		// Shadow runs and replays neither log in nor serve labels, so they
+		// can run next to the live labeler without taking its port
+		if (!shadow) {
+			// Validate required authentication configuration
+			if (!CONFIG.BSKY_HANDLE || !CONFIG.BSKY_PASSWORD) {
+				throw new AtpError(
+					'BSKY_HANDLE and BSKY_PASSWORD must be set in the configuration',
+				);
+			}
+
+			// Authenticate with ATP service
+			try {
+				await agent.login({
+					identifier: CONFIG.BSKY_HANDLE,
+					password: CONFIG.BSKY_PASSWORD,
+				});
+				logger.info('Logged in to ATP successfully');
+			} catch (error) {
+				if (error instanceof Error) {
+					throw new AtpError(`ATP login failed: ${error.message}`);
+				} else {
+					throw new AtpError('ATP login failed: Unknown error');
+				}
+			}
+
+			await labeler.init();
+		}
 
-		// Authenticate with ATP service
-		try {
-			await agent.login({
-				identifier: CONFIG.BSKY_HANDLE,
-				password: CONFIG.BSKY_PASSWORD,
+		// Report component state to the health probes
+		const health = new HealthMonitor();
+		health.register({
+			name: 'kv',
+			liveness: true,
+			check: async () => ({ ok: await verifyKvStore(kv) }),
+		});
+		if (!shadow) {
+			health.register({
+				name: 'labeler',
+				liveness: true,
+				check: () => ({ ok: labeler.listening }),
 			});
-			logger.info('Logged in to ATP successfully');
-		} catch (error) {
-			if (error instanceof Error) {
-				throw new AtpError(`ATP login failed: ${error.message}`);
-			} else {
-				throw new AtpError('ATP login failed: Unknown error');
+			health.register({
+				name: 'atp',
+				liveness: false,
+				check: async () => ({ ok: await labeler.checkSession() }),
+			});
+		}
+		// Stale events report as not ready, not as dead: a quiet stream or a
+		// replay is not something a restart fixes, and the stall watchdog
+		// already reconnects a stalled connection
+		health.register({
+			name: 'events',
+			liveness: false,
+			check: () => ({
+				ok: health.sinceLastEvent < EVENT_STALE_THRESHOLD,
+				detail: `last event ${Math.round(health.sinceLastEvent / 1000)}s ago`,
+			}),
+		});
+
+		// Serve operational telemetry and health probes on their own port
+		let telemetryServer: TelemetryServer | null = null;
+		if (CONFIG.TELEMETRY_PORT !== 0) {
+			if (CONFIG.TELEMETRY_PORT === CONFIG.PORT) {
+				throw new ConfigurationError(
+					'TELEMETRY_PORT must differ from the labeler PORT',
+				);
 			}
+			telemetryServer = new TelemetryServer(
+				telemetry,
+				health,
+				CONFIG.TELEMETRY_PORT,
+			);
+			telemetryServer.start();
+		}
+
+		// Hold the lease while emitting labels, so maintenance commands that
+		// would race the labeler's metrics refuse to run
+		const lease = shadow ? null : new ServiceLease(kv);
+		await lease?.acquire();
+
+		// Count labels emitted before a crash cut their metrics update short.
+		// Shadow mode leaves the metrics to the labeler emitting the labels.
+		const recovered = shadow ? 0 : await labeler.recoverMetrics();
+		if (recovered > 0) {
+			logger.info(`Recovered ${recovered} pending metrics updates`);
 		}
 
-		await labeler.init();
+		if (CONFIG.RECONCILE_ON_STARTUP !== 'off') {
+			const report = await labeler.reconcileMetrics(
+				CONFIG.RECONCILE_ON_STARTUP === 'fix' && !shadow,
+			);
+			logger.info(
+				`Metrics reconciled for ${report.subjects} labeled users: ` +
+					`${report.differences.length} differences` +
+					(report.fixed ? ' corrected' : ''),
+			);
+		}
 
 		try {
-			// Initialize Jetstream connection
-			const jetstream = new Jetstream({
-				wantedCollections: [CONFIG.COLLECTION],
-				endpoint: CONFIG.JETSTREAM_URL,
-				cursor: CONFIG.CURSOR,
+			// Restore recently processed events so replays are not re-applied
+			const eventCache = new EventCache({
+				maxSize: EVENT_CACHE_SIZE,
+				ttl: EVENT_RETENTION_DURATION,
+				kv: CONFIG.DEDUP_PERSIST ? kv : undefined,
 			});
+			await eventCache.load(startCursor);
 
-			// Configure event handling
-			setupJetstreamListeners(jetstream, labeler);
+			// Configure event handling and checkpointing
+			const checkpointer = new CursorCheckpointer(
+				startCursor,
+				CONFIG.CURSOR_INTERVAL,
+			);
+			telemetry.cursorLag.collect(() => [[
+				{},
+				checkpointer.checkpoint > 0
+					? Math.max(0, Date.now() * 1000 - checkpointer.checkpoint) / 1e6
+					: 0,
+			]]);
+			const queue = new SubjectQueue(
+				CONFIG.QUEUE_CONCURRENCY,
+				CONFIG.QUEUE_CAPACITY,
+			);
+			const source = createEventSource(
+				startCursor,
+				queue,
+				checkpointer,
+				telemetry,
+			);
+			setupJetstreamListeners(
+				source,
+				labeler,
+				checkpointer,
+				queue,
+				eventCache,
+				telemetry,
+				health,
+			);
+			setupQueueReportInterval(queue);
 
 			// Configure cache cleanup
+			setInterval(
+				() => eventCache.cleanup(checkpointer.checkpoint),
+				CACHE_CLEANUP_INTERVAL,
+			);
+
+			// Configure activity metrics rollup
+			await metrics.rollup(CONFIG.METRICS_HOURLY_RETENTION);
 			setInterval(() => {
-				const minCursor = (jetstream.cursor ?? Date.now() * 1000) -
-					EVENT_RETENTION_DURATION * 1000;
-				eventCache.cleanup(minCursor);
-			}, CACHE_CLEANUP_INTERVAL);
-
-			// Initialize and start connection management
-			const handler = new Handler(jetstream);
-			await handler.start();
-			logger.info('Jetstream started with connection management');
-
-			setupCursorUpdateInterval(jetstream, handler);
-			setupShutdownHandlers(labeler, handler);
+				// Failures are logged by the tracker and retried next interval
+				metrics.rollup(CONFIG.METRICS_HOURLY_RETENTION).catch(() => {});
+			}, METRICS_ROLLUP_INTERVAL);
+
+			// Configure audit log retention
+			await audit.prune(CONFIG.AUDIT_RETENTION_DAYS);
+			setInterval(() => {
+				// Failures are logged by the audit log and retried next interval
+				audit.prune(CONFIG.AUDIT_RETENTION_DAYS).catch(() => {});
+			}, AUDIT_PRUNE_INTERVAL);
+
+			await source.start();
+			logger.info(`Event source started: ${source.description}`);
+			health.register({
+				name: 'jetstream',
+				liveness: false,
+				check: () => ({ ok: source.connected, detail: source.description }),
+			});
+
+			if (persistCursor) {
+				checkpointer.start();
+			}
+			const shutdown = setupShutdownHandlers(
+				labeler,
+				source,
+				persistCursor ? checkpointer : null,
+				queue,
+				telemetryServer,
+				lease,
+			);
+
+			// A finished replay shuts down once its events are processed
+			source.finished?.then(async () => {
+				await queue.onIdle();
+				await shutdown();
+			});
 		} catch (error) {
 			if (error instanceof Error) {
 				throw new JetstreamError(
@@ -191,141 +366,294 @@ async function main() {
 }
 
 /**
- * Generates a unique identifier for event deduplication.
- * Combines the event's DID, revision, and timestamp to create a unique string.
+ * Creates the configured event source.
+ * The live Jetstream fails over between the configured endpoints and is
+ * reconnected by the Handler, resuming from the last checkpoint. A file
+ * replay waits for the ingestion queue rather than overflowing it.
  *
- * @param event - The Jetstream event requiring a unique identifier
- * @param cursor - The current cursor value for the Jetstream connection
- * @returns A unique string identifier for the event
+ * @param startCursor - The cursor to connect to Jetstream from
+ * @param queue - The SubjectQueue the events are processed through
+ * @param checkpointer - The CursorCheckpointer providing the resume cursor
+ * @param telemetry - The Telemetry reporting endpoint state and reconnects
+ * @returns The event source, not yet started
  */
-function generateEventId(
-	event: CommitCreateEvent<string>,
-	cursor?: number,
-): string {
-	return `${event.did}:${event.commit.rev}:${cursor}`;
+function createEventSource(
+	startCursor: number,
+	queue: SubjectQueue,
+	checkpointer: CursorCheckpointer,
+	telemetry: Telemetry,
+): EventSource {
+	const config = CONFIG.EVENT_SOURCE;
+	switch (config.type) {
+		case 'file':
+			return new FileReplaySource(config.path, {
+				speed: config.speed,
+				fromCursor: config.fromCursor,
+				toCursor: config.toCursor,
+				backpressure: () =>
+					queue.depth >= CONFIG.QUEUE_CAPACITY ? queue.onIdle() : undefined,
+			});
+		case 'jetstream': {
+			const endpoints = new EndpointPool(
+				CONFIG.JETSTREAM_URLS,
+				CONFIG.JETSTREAM_FAILOVER_THRESHOLD,
+			);
+			const jetstream = new Jetstream({
+				wantedCollections: CONFIG.TRIGGERS.map((trigger) => trigger.collection),
+				endpoint: endpoints.active,
+				cursor: startCursor,
+			});
+			telemetry.endpointActive.collect(() =>
+				endpoints.health.map(({ url }) => [
+					{ url },
+					url === endpoints.active ? 1 : 0,
+				])
+			);
+			telemetry.endpointHealthy.collect(() =>
+				endpoints.health.map(({ url, healthy }) => [{ url }, healthy ? 1 : 0])
+			);
+
+			const handler = new Handler(jetstream, {
+				resumeCursor: () => checkpointer.resumeCursor(),
+				telemetry,
+				stallTimeout: CONFIG.STALL_TIMEOUT,
+				endpoints,
+				reconnectPolicy: createReconnectPolicy(CONFIG.RECONNECT_POLICY),
+				shutdownTimeout: CONFIG.SHUTDOWN_TIMEOUT,
+			});
+			return new JetstreamSource(jetstream, handler);
+		}
+	}
+}
+
+/**
+ * Determines the cursor to resume from on startup.
+ * Resumes from the persisted cursor so events received while the labeler
+ * was down are replayed, but never further back than MAX_REPLAY_WINDOW.
+ * Starts from the current time when no cursor has been stored yet or the
+ * stored cursor lies in the future.
+ *
+ * @param persist - Whether to store the resolved cursor
+ * @returns The cursor to start from
+ */
+async function resolveStartCursor(persist: boolean): Promise<number> {
+	const now = Date.now() * 1000;
+	const oldestAllowed = now - CONFIG.MAX_REPLAY_WINDOW;
+	let cursor = CONFIG.CURSOR;
+
+	if (cursor === 0 || cursor > now) {
+		logger.info(
+			`No usable stored cursor (${cursor}), starting from now: ${now} (${
+				new Date(now / 1000).toISOString()
+			})`,
+		);
+		cursor = now;
+	} else if (cursor < oldestAllowed) {
+		logger.warn(
+			`Stored cursor ${cursor} is older than the replay window of ${CONFIG.MAX_REPLAY_WINDOW}µs, ` +
+				`clamping to ${oldestAllowed} (${
+					new Date(oldestAllowed / 1000).toISOString()
+				})`,
+		);
+		cursor = oldestAllowed;
+	}
+
+	const backlog = now - cursor;
+	logger.info(
+		`Resuming from cursor ${cursor} (${
+			new Date(cursor / 1000).toISOString()
+		}), replaying ${backlog}µs (${
+			(backlog / 3_600_000_000).toFixed(2)
+		}h) of backlog`,
+	);
+
+	if (persist && cursor !== CONFIG.CURSOR) {
+		await setConfigValue('CURSOR', cursor);
+	}
+	return cursor;
 }
 
 /**
- * Configures Jetstream event listeners and processing logic.
+ * Configures event source listeners and processing logic.
  * Handles event validation and processing through the labeler.
+ * Each configured trigger collection is subscribed to: create events are
+ * handled as triggers, delete events undo the label a trigger granted.
+ *
+ * Events are passed to the EventDispatcher, which skips those that cannot
+ * concern the labeler: records that do not target it, and deletions of
+ * records that never granted a label. Relevant events are processed
+ * through the ingestion queue, serialized per subject DID.
  *
- * @param jetstream - The Jetstream instance for event subscription
+ * @param source - The EventSource for event subscription
  * @param labeler - The Labeler instance for event processing
+ * @param checkpointer - The CursorCheckpointer tracking in-flight events
+ * @param queue - The SubjectQueue serializing work per subject
+ * @param eventCache - The EventCache used to skip already processed events
+ * @param telemetry - The Telemetry counting events and processing latency
+ * @param health - The HealthMonitor tracking when the last event arrived
  */
 function setupJetstreamListeners(
-	jetstream: Jetstream<string, string>,
+	source: EventSource,
 	labeler: Labeler,
+	checkpointer: CursorCheckpointer,
+	queue: SubjectQueue,
+	eventCache: EventCache,
+	telemetry: Telemetry,
+	health: HealthMonitor,
 ) {
-	const updateCursor = async (cursor: number | undefined) => {
-		if (cursor) {
-			await setConfigValue('CURSOR', cursor);
-			logger.debug(
-				`Updated cursor to ${cursor} (${
-					new Date(cursor / 1000).toISOString()
-				})`,
-			);
-		}
-	};
+	const dispatcher = new EventDispatcher(
+		checkpointer,
+		queue,
+		eventCache,
+		telemetry,
+		health,
+		() => source.rewind?.() ?? Promise.resolve(),
+	);
 
-	jetstream.onCreate(
-		CONFIG.COLLECTION,
-		async (event: CommitCreateEvent<typeof CONFIG.COLLECTION>) => {
-			try {
-				await updateCursor(jetstream.cursor);
+	for (const trigger of CONFIG.TRIGGERS) {
+		source.onCreate(
+			trigger.collection,
+			(event: CommitCreateEvent<string>) =>
+				dispatcher.dispatch(event, () => {
+					const target = resolveTriggerTarget(trigger.action, event);
+					if (!target) {
+						return null;
+					}
 
-				const eventId = generateEventId(event);
-				if (eventCache.has(eventId)) {
-					logger.debug(`Skipping duplicate create event: ${eventId}`);
-					return;
-				}
+					return () =>
+						labeler.handleTrigger({
+							subject: SubjectDidSchema.parse(event.did),
+							collection: trigger.collection,
+							rkey: event.commit.rkey,
+							target,
+							cid: event.commit.cid,
+							timeUs: event.time_us,
+						});
+				}),
+		);
+
+		source.onDelete(
+			trigger.collection,
+			(event: CommitDeleteEvent<string>) =>
+				dispatcher.dispatch(event, () => {
+					// Work queued for the subject may record this trigger first
+					if (
+						!labeler.tracksTrigger(
+							event.did,
+							trigger.collection,
+							event.commit.rkey,
+						) && !queue.has(event.did)
+					) {
+						return null;
+					}
 
-				if (!isValidEvent(event)) {
-					logger.error('Received invalid event structure:', { event });
-					return;
-				}
+					return () =>
+						labeler.handleTriggerDeletion(
+							SubjectDidSchema.parse(event.did),
+							trigger.collection,
+							RkeySchema.parse(event.commit.rkey),
+							event.time_us,
+						);
+				}),
+		);
+	}
+}
 
-				if (event.commit?.record?.subject?.uri?.includes(CONFIG.DID)) {
-					const validatedDID = DidSchema.parse(event.did);
-					const rkey = event.commit.record.subject.uri.split('/').pop();
+/**
+ * Resolves what a created trigger record points at, based on the
+ * trigger action configured for its collection.
+ *
+ * @param action - The configured trigger action for the collection
+ * @param event - The create event for the trigger record
+ * @returns The trigger target, or null if the record does not target us
+ */
+function resolveTriggerTarget(
+	action: TriggerAction,
+	event: CommitCreateEvent<string>,
+): TriggerTarget | null {
+	switch (action.type) {
+		case 'post': {
+			const record = LikeRecordSchema.safeParse(event.commit.record);
+			if (!record.success) {
+				logger.debug(
+					`Ignoring invalid ${event.commit.collection} record: ${
+						record.error.errors.map((e) => e.message).join(', ')
+					}`,
+				);
+				return null;
+			}
 
-					if (!rkey) {
-						logger.error('Could not extract rkey from event:', { event });
-						return;
-					}
+			const uri = record.data.subject.uri;
+			if (uri.authority !== CONFIG.DID) {
+				return null;
+			}
 
-					const validatedRkey = RkeySchema.parse(rkey);
-					await labeler.handleLike(validatedDID, validatedRkey);
-				}
-			} catch (error) {
-				logger.error(
-					`Error processing event: ${
-						error instanceof Error ? error.message : String(error)
-					}`,
+			const post = PostUriSchema.safeParse(uri);
+			if (!post.success) {
+				logger.debug(
+					`Ignoring ${event.commit.collection} of ${
+						uri.collection ?? 'an account'
+					} instead of a post`,
 				);
+				return null;
 			}
-		},
-	);
+
+			return { type: 'post', rkey: post.data.rkey };
+		}
+		case 'grant': {
+			if (!isAccountSubjectEvent(event)) {
+				logger.error('Received invalid event structure:', { event });
+				return null;
+			}
+
+			if (event.commit.record.subject !== CONFIG.DID) {
+				return null;
+			}
+
+			return { type: 'grant', identifier: action.identifier };
+		}
+	}
 }
 
 /**
- * Event structure type guard.
- * Ensures incoming events conform to the expected format.
+ * Periodically reports ingestion queue depth.
+ *
+ * @param queue - The SubjectQueue to report on
+ */
+function setupQueueReportInterval(queue: SubjectQueue) {
+	let lastDropped = 0;
+	setInterval(() => {
+		const message =
+			`Ingestion queue depth: ${queue.depth}, active: ${queue.active}, dropped: ${queue.dropped}`;
+		if (queue.depth > 0 || queue.dropped > lastDropped) {
+			logger.info(message);
+		} else {
+			logger.debug(message);
+		}
+		lastDropped = queue.dropped;
+	}, QUEUE_REPORT_INTERVAL);
+}
+
+/**
+ * Account subject type guard.
+ * Ensures incoming events reference an account, as follows do.
  *
  * @param event - The event object requiring validation
- * @returns Boolean indicating if the event structure is valid
+ * @returns Boolean indicating if the event has an account subject
  */
-function isValidEvent(event: unknown): event is {
+function isAccountSubjectEvent(event: unknown): event is {
 	did: string;
 	commit: {
 		record: {
-			subject: {
-				uri: string;
-			};
+			subject: string;
 		};
 	};
 } {
 	if (typeof event !== 'object' || event === null) return false;
 
-	const e = event as Record<string, unknown>;
-	return (
-		typeof e.did === 'string' &&
-		typeof e.commit === 'object' && e.commit !== null &&
-		typeof (e.commit as Record<string, unknown>).record === 'object' &&
-		(e.commit as Record<string, unknown>).record !== null &&
-		typeof ((e.commit as Record<string, unknown>).record as Record<
-				string,
-				unknown
-			>).subject === 'object' &&
-		((e.commit as Record<string, unknown>).record as Record<string, unknown>)
-				.subject !== null &&
-		typeof (((e.commit as Record<string, unknown>).record as Record<
-				string,
-				unknown
-			>).subject as Record<string, unknown>).uri === 'string'
-	);
-}
-
-/**
- * Establishes periodic cursor state persistence.
- * Ensures recovery point maintenance for event processing.
- *
- * @param jetstream - The Jetstream instance providing cursor values
- * @param handler - The Handler instance managing connection state
- */
-function setupCursorUpdateInterval(
-	jetstream: Jetstream<string, string>,
-	handler: Handler,
-) {
-	setInterval(async () => {
-		if (jetstream.cursor && handler.connected) {
-			logger.info(
-				`Updating cursor to: ${jetstream.cursor} (${
-					new Date(jetstream.cursor / 1000).toISOString()
-				})`,
-			);
-			await setConfigValue('CURSOR', jetstream.cursor);
-		}
-	}, CONFIG.CURSOR_INTERVAL);
+	const e = event as { did?: unknown; commit?: { record?: unknown } };
+	const record = e.commit?.record as { subject?: unknown } | undefined;
+	return typeof e.did === 'string' && typeof record?.subject === 'string';
 }
 
 /**
@@ -333,9 +661,22 @@ function setupCursorUpdateInterval(
  * Ensures proper cleanup of resources during application termination.
  *
  * @param labeler - The Labeler instance requiring cleanup
- * @param handler - The Handler instance managing connection state
+ * @param source - The EventSource to stop
+ * @param checkpointer - The CursorCheckpointer to flush a final checkpoint,
+ *   or null if the cursor is not persisted
+ * @param queue - The SubjectQueue to drain before the final checkpoint
+ * @param telemetryServer - The TelemetryServer to stop, if one is running
+ * @param lease - The ServiceLease to release, if one is held
+ * @returns The shutdown sequence, for shutting down without a signal
  */
-function setupShutdownHandlers(labeler: Labeler, handler: Handler) {
+function setupShutdownHandlers(
+	labeler: Labeler,
+	source: EventSource,
+	checkpointer: CursorCheckpointer | null,
+	queue: SubjectQueue,
+	telemetryServer: TelemetryServer | null,
+	lease: ServiceLease | null,
+): () => Promise<void> {
 	let isShuttingDown = false;
 
 	const shutdown = async () => {
@@ -348,10 +689,19 @@ function setupShutdownHandlers(labeler: Labeler, handler: Handler) {
 
 		try {
 			await Promise.race([
-				handler.shutdown(),
-				new Promise((resolve) => setTimeout(resolve, 7000)),
+				source.shutdown(),
+				new Promise((resolve) =>
+					setTimeout(resolve, CONFIG.SHUTDOWN_TIMEOUT + SHUTDOWN_GRACE_PERIOD)
+				),
+			]);
+			await Promise.race([
+				queue.onIdle(),
+				new Promise((resolve) => setTimeout(resolve, CONFIG.SHUTDOWN_TIMEOUT)),
 			]);
+			await checkpointer?.stop();
 			await labeler.shutdown();
+			await lease?.release();
+			await telemetryServer?.shutdown();
 			await closeConfig();
 			kv.close();
 			logger.info('Shutdown completed successfully');
@@ -368,6 +718,7 @@ function setupShutdownHandlers(labeler: Labeler, handler: Handler) {
 
 	Deno.addSignalListener('SIGINT', shutdown);
 	Deno.addSignalListener('SIGTERM', shutdown);
+	return shutdown;
 }
 
 // Application entry point
@@ -1,15 +1,130 @@
 /**
  * Metrics tracking system
- * Tracks label counts for each identifier.
+ * Tracks label counts for each identifier, with a daily snapshot of the
+ * counts for historical trends.
+ *
+ * Key Features:
+ * - Each label has its own counter key, updated with a versioned
+ *   compare-and-swap, so concurrent updates are never lost
+ * - Updates for a trigger are journaled before its labels are emitted and
+ *   committed together afterwards, so a crash in between can be recovered
+ * - Hourly activity buckets count applications, negations, removals and
+ *   label-to-label transitions, and fold into daily buckets over time
  */
 import * as log from '@std/log';
 import { LabelIdentifier } from './schemas.ts';
+import { LabelOperation } from './rules_engine.ts';
 import { MetricsError } from './errors.ts';
+import { Clock, systemClock } from './clock.ts';
 
-interface LabelMetrics {
+/** Maximum compare-and-swap attempts before an update fails */
+const MAX_COMMIT_ATTEMPTS = 10;
+
+/** The kinds of label activity counted in time buckets */
+export type ActivityKind = 'apply' | 'negate' | 'removal' | 'transition';
+
+/** The resolution of an activity bucket */
+export type ActivityResolution = 'hour' | 'day';
+
+/**
+ * A single counted activity. For transitions, label is "from>to".
+ */
+export interface Activity {
+	kind: ActivityKind;
+	label: string;
+}
+
+/**
+ * The count of one activity in one time bucket.
+ */
+export interface ActivityRecord extends Activity {
+	resolution: ActivityResolution;
+	/** Start of the bucket, as YYYY-MM-DDTHH for hours or YYYY-MM-DD for days */
+	bucket: string;
+	count: number;
+}
+
+export interface LabelMetrics {
 	[key: string]: number; // Counts for each label identifier
 }
 
+/**
+ * The label counts as they were at the end of a day.
+ */
+export interface MetricsSnapshot {
+	/** The UTC day, as YYYY-MM-DD */
+	date: string;
+	counts: LabelMetrics;
+}
+
+/**
+ * A journaled metrics update for label operations that are about to be
+ * emitted. It is deleted in the same commit that applies it.
+ */
+export interface PendingUpdate {
+	id: string;
+	/** The DID the labels are emitted for */
+	subject: string;
+	operations: LabelOperation[];
+	/** Whether the operations remove labels through a removal post */
+	removal: boolean;
+	/** When the update was journaled, as an ISO timestamp */
+	createdAt: string;
+}
+
+/**
+ * Describes the activity of label operations emitted together.
+ * Every operation counts as an application or negation. Negations through
+ * a removal post also count as removals, and negations that make way for
+ * a new label count as transitions from the negated label to the new one.
+ *
+ * @param operations - The emitted operations, in order
+ * @param removal - Whether the operations come from a removal post
+ */
+export function describeActivity(
+	operations: readonly LabelOperation[],
+	removal: boolean,
+): Activity[] {
+	const activity: Activity[] = operations.map(({ val, neg }) => ({
+		kind: neg ? 'negate' : 'apply',
+		label: val,
+	}));
+	const negated = operations.filter((op) => op.neg).map((op) => op.val);
+	const applied = operations.filter((op) => !op.neg).map((op) => op.val);
+
+	if (removal) {
+		activity.push(
+			...negated.map((label) => ({ kind: 'removal' as const, label })),
+		);
+	} else if (applied.length === 1) {
+		activity.push(...negated.map((from) => ({
+			kind: 'transition' as const,
+			label: `${from}>${applied[0]}`,
+		})));
+	}
+	return activity;
+}
+
+/**
+ * Formats activity records as CSV, with a header row.
+ * Fields containing commas, quotes or line breaks are quoted (RFC 4180).
+ */
+export function activityToCsv(records: readonly ActivityRecord[]): string {
+	const lines = ['resolution,bucket,kind,label,count'];
+	for (const record of records) {
+		lines.push(
+			[
+				record.resolution,
+				record.bucket,
+				record.kind,
+				record.label,
+				record.count,
+			].map(csvField).join(','),
+		);
+	}
+	return lines.join('\n') + '\n';
+}
+
 /**
  * Manages metrics for label operations.
  * Uses Deno KV for persistent storage.
@@ -17,65 +132,134 @@ interface LabelMetrics {
 export class MetricsTracker {
 	private readonly logger: log.Logger;
 
-	constructor(private readonly kv: Deno.Kv) {
+	/**
+	 * @param kv - The KV store holding the metrics
+	 * @param clock - The time source for journal entries and time buckets
+	 */
+	constructor(
+		private readonly kv: Deno.Kv,
+		private readonly clock: Clock = systemClock,
+	) {
 		this.logger = log.getLogger();
 	}
 
 	/**
-	 * Records a label application by incrementing its counter
+	 * Migrates counts stored as a single object to one key per label.
+	 *
+	 * @throws {MetricsError} If the migration fails
 	 */
-	async incrementLabel(identifier: LabelIdentifier): Promise<void> {
+	async init(): Promise<void> {
 		try {
-			const metrics = await this.getLabelMetrics();
-			metrics[identifier] = (metrics[identifier] || 0) + 1;
-			await this.kv.set(['metrics', 'labels'], metrics);
-			this.logger.info(
-				`Incremented count for label ${identifier} to ${metrics[identifier]}`,
-			);
+			const legacy = await this.kv.get<LabelMetrics>(['metrics', 'labels']);
+			if (legacy.value === null) {
+				return;
+			}
+
+			const op = this.kv.atomic().check(legacy);
+			for (const [identifier, count] of Object.entries(legacy.value)) {
+				op.set(['metrics', 'labels', identifier], count);
+			}
+			op.delete(['metrics', 'labels']);
+			await op.commit();
+			this.logger.info('Migrated label metrics to per-label counters');
 		} catch (error) {
-			const msg = `Failed to increment label ${identifier}: ${
-				error instanceof Error ? error.message : String(error)
-			}`;
-			this.logger.error(msg);
-			throw new MetricsError(msg);
+			throw this.error('Failed to migrate label metrics', error);
 		}
 	}
 
 	/**
-	 * Records a label removal by decrementing its counter
+	 * Journals a metrics update before its label operations are emitted.
+	 *
+	 * @param subject - The DID the labels are emitted for
+	 * @param operations - The label operations about to be emitted
+	 * @param removal - Whether the operations come from a removal post
+	 * @returns The pending update, to pass to commit once emitted
+	 * @throws {MetricsError} If the update cannot be journaled
 	 */
-	async decrementLabel(identifier: LabelIdentifier): Promise<void> {
+	async begin(
+		subject: string,
+		operations: LabelOperation[],
+		removal = false,
+	): Promise<PendingUpdate> {
+		const update: PendingUpdate = {
+			id: crypto.randomUUID(),
+			subject,
+			operations,
+			removal,
+			createdAt: new Date(this.clock.now()).toISOString(),
+		};
 		try {
-			const metrics = await this.getLabelMetrics();
-			if (metrics[identifier] > 0) {
-				metrics[identifier]--;
-				await this.kv.set(['metrics', 'labels'], metrics);
-				this.logger.info(
-					`Decremented count for label ${identifier} to ${metrics[identifier]}`,
-				);
+			await this.kv.set(['metrics', 'pending', update.id], update);
+			return update;
+		} catch (error) {
+			throw this.error(`Failed to journal metrics for ${subject}`, error);
+		}
+	}
+
+	/**
+	 * Applies a journaled update and removes it from the journal in one
+	 * commit. Committing an update that was already committed is a no-op.
+	 *
+	 * @param update - The pending update
+	 * @param emitted - The operations that were actually emitted, if not all
+	 * @throws {MetricsError} If the update cannot be committed
+	 */
+	async commit(
+		update: PendingUpdate,
+		emitted: LabelOperation[] = update.operations,
+	): Promise<void> {
+		await this.apply(emitted, update.id, update.removal);
+	}
+
+	/**
+	 * Lists updates that were journaled but never committed
+	 */
+	async pending(): Promise<PendingUpdate[]> {
+		try {
+			const updates: PendingUpdate[] = [];
+			for await (
+				const entry of this.kv.list<PendingUpdate>({
+					prefix: ['metrics', 'pending'],
+				})
+			) {
+				updates.push(entry.value);
 			}
+			return updates;
 		} catch (error) {
-			const msg = `Failed to decrement label ${identifier}: ${
-				error instanceof Error ? error.message : String(error)
-			}`;
-			this.logger.error(msg);
-			throw new MetricsError(msg);
+			throw this.error('Failed to list pending metrics', error);
 		}
 	}
 
+	/**
+	 * Records a label application by incrementing its counter
+	 */
+	async incrementLabel(identifier: LabelIdentifier): Promise<void> {
+		await this.apply([{ val: identifier, neg: false }]);
+	}
+
+	/**
+	 * Records a label removal by decrementing its counter
+	 */
+	async decrementLabel(identifier: LabelIdentifier): Promise<void> {
+		await this.apply([{ val: identifier, neg: true }]);
+	}
+
 	/**
 	 * Gets the current metrics for all labels
 	 */
 	async getLabelMetrics(): Promise<LabelMetrics> {
 		try {
-			const result = await this.kv.get<LabelMetrics>(['metrics', 'labels']);
-			return result.value ?? {};
+			const metrics: LabelMetrics = {};
+			for await (
+				const entry of this.kv.list<number>({
+					prefix: ['metrics', 'labels'],
+				})
+			) {
+				metrics[entry.key[2] as string] = entry.value;
+			}
+			return metrics;
 		} catch (error) {
-			const msg = `Failed to get label metrics: ${
-				error instanceof Error ? error.message : String(error)
-			}`;
-			this.logger.error(msg);
-			throw new MetricsError(msg);
+			throw this.error('Failed to get label metrics', error);
 		}
 	}
 
@@ -83,14 +267,274 @@ export class MetricsTracker {
 	 * Gets the current count for a specific label
 	 */
 	async getLabelCount(identifier: LabelIdentifier): Promise<number> {
-		const metrics = await this.getLabelMetrics();
-		return metrics[identifier] || 0;
+		try {
+			const result = await this.kv.get<number>([
+				'metrics',
+				'labels',
+				identifier,
+			]);
+			return result.value ?? 0;
+		} catch (error) {
+			throw this.error(`Failed to get count for label ${identifier}`, error);
+		}
+	}
+
+	/**
+	 * Gets the daily snapshots, oldest first
+	 *
+	 * @param days - Only return the most recent number of days, if given
+	 */
+	async getHistory(days?: number): Promise<MetricsSnapshot[]> {
+		try {
+			const snapshots = new Map<string, LabelMetrics>();
+			for await (
+				const entry of this.kv.list<number>({
+					prefix: ['metrics', 'history'],
+				})
+			) {
+				const date = entry.key[2] as string;
+				const counts = snapshots.get(date) ?? {};
+				counts[entry.key[3] as string] = entry.value;
+				snapshots.set(date, counts);
+			}
+
+			// Labels untouched on a day keep their count from the day before
+			const history: MetricsSnapshot[] = [];
+			let previous: LabelMetrics = {};
+			for (const [date, counts] of snapshots) {
+				previous = { ...previous, ...counts };
+				history.push({ date, counts: previous });
+			}
+			return days === undefined ? history : history.slice(-days);
+		} catch (error) {
+			throw this.error('Failed to get metrics history', error);
+		}
+	}
+
+	/**
+	 * Gets the activity counts for buckets that overlap a time range,
+	 * from hourly buckets and from daily buckets they were folded into.
+	 *
+	 * @param from - Start of the range, inclusive
+	 * @param to - End of the range, exclusive
+	 * @returns The records, daily buckets first, each ordered by time
+	 * @throws {MetricsError} If the buckets cannot be read
+	 */
+	async getActivity(from: Date, to: Date): Promise<ActivityRecord[]> {
+		try {
+			const records: ActivityRecord[] = [];
+			const last = new Date(to.getTime() - 1);
+			const ranges: [ActivityResolution, string, string][] = [
+				['day', dayBucket(from), dayBucket(last)],
+				['hour', hourBucket(from), hourBucket(last)],
+			];
+			for (const [resolution, first, final] of ranges) {
+				const prefix = ['metrics', 'activity', resolution];
+				for await (
+					const entry of this.kv.list<Deno.KvU64>({
+						start: [...prefix, first],
+						// '~' sorts after every bucket character, so the final
+						// bucket is included but the one after it is not
+						end: [...prefix, `${final}~`],
+					})
+				) {
+					const [, , , bucket, kind, label] = entry.key as string[];
+					records.push({
+						resolution,
+						bucket,
+						kind: kind as ActivityKind,
+						label,
+						count: Number(entry.value.value),
+					});
+				}
+			}
+			return records;
+		} catch (error) {
+			throw this.error('Failed to get label activity', error);
+		}
+	}
+
+	/**
+	 * Folds hourly activity buckets older than the retention period into
+	 * daily buckets. Each hourly counter is added to its day and deleted in
+	 * the same commit, so a rollup can be interrupted and resumed safely.
+	 *
+	 * @param retentionDays - Number of days to keep hourly buckets for
+	 * @returns The number of hourly counters folded
+	 * @throws {MetricsError} If the rollup fails
+	 */
+	async rollup(retentionDays: number): Promise<number> {
+		const cutoff = hourBucket(
+			new Date(this.clock.now() - retentionDays * 24 * 60 * 60 * 1000),
+		);
+		let folded = 0;
+		try {
+			for await (
+				const entry of this.kv.list<Deno.KvU64>({
+					start: ['metrics', 'activity', 'hour'],
+					end: ['metrics', 'activity', 'hour', cutoff],
+				})
+			) {
+				const [, , , bucket, kind, label] = entry.key as string[];
+				const result = await this.kv.atomic()
+					.check(entry)
+					.sum(
+						['metrics', 'activity', 'day', bucket.slice(0, 10), kind, label],
+						entry.value.value,
+					)
+					.delete(entry.key)
+					.commit();
+				if (result.ok) folded++;
+			}
+		} catch (error) {
+			throw this.error('Failed to roll up label activity', error);
+		}
+		if (folded > 0) {
+			this.logger.info(`Folded ${folded} hourly activity counters into days`);
+		}
+		return folded;
 	}
 
 	/**
-	 * Resets metrics (mainly for testing)
+	 * Overwrites all counters with the given counts, as after a
+	 * reconciliation. Pending updates are dropped in the same commit, since
+	 * the counts already reflect every emitted label.
+	 *
+	 * @throws {MetricsError} If the counters cannot be written
+	 */
+	async setLabelCounts(counts: LabelMetrics): Promise<void> {
+		const date = dayBucket(new Date(this.clock.now()));
+		try {
+			const op = this.kv.atomic();
+			for await (
+				const entry of this.kv.list({ prefix: ['metrics', 'labels'] })
+			) {
+				if (!((entry.key[2] as string) in counts)) {
+					op.delete(entry.key);
+					op.set(['metrics', 'history', date, entry.key[2]], 0);
+				}
+			}
+			for await (
+				const entry of this.kv.list({ prefix: ['metrics', 'pending'] })
+			) {
+				op.delete(entry.key);
+			}
+			for (const [identifier, count] of Object.entries(counts)) {
+				op.set(['metrics', 'labels', identifier], count);
+				op.set(['metrics', 'history', date, identifier], count);
+			}
+			await op.commit();
+		} catch (error) {
+			throw this.error('Failed to set label counts', error);
+		}
+	}
+
+	/**
+	 * Resets metrics and their history
 	 */
 	async reset(): Promise<void> {
-		await this.kv.delete(['metrics', 'labels']);
+		for await (const entry of this.kv.list({ prefix: ['metrics'] })) {
+			await this.kv.delete(entry.key);
+		}
 	}
+
+	/**
+	 * Applies label operations to their counters with a compare-and-swap,
+	 * retrying when another update changed a counter in the meantime.
+	 * Counters never go below zero. When a journal id is given, the journal
+	 * entry is deleted in the same commit, and the update is skipped if the
+	 * entry is already gone. The activity is counted in the current hourly
+	 * bucket in the same commit.
+	 */
+	private async apply(
+		operations: LabelOperation[],
+		journalId?: string,
+		removal = false,
+	): Promise<void> {
+		const identifiers = [...new Set(operations.map((op) => op.val))];
+		const now = new Date(this.clock.now());
+		const date = dayBucket(now);
+		const hour = hourBucket(now);
+		const activity = describeActivity(operations, removal);
+
+		try {
+			for (let attempt = 1; attempt <= MAX_COMMIT_ATTEMPTS; attempt++) {
+				const op = this.kv.atomic();
+
+				if (journalId) {
+					const journal = await this.kv.get(['metrics', 'pending', journalId]);
+					if (journal.value === null) {
+						this.logger.debug(`Metrics update ${journalId} already committed`);
+						return;
+					}
+					op.check(journal).delete(['metrics', 'pending', journalId]);
+				}
+
+				const counts = new Map<string, number>();
+				for (const identifier of identifiers) {
+					const entry = await this.kv.get<number>([
+						'metrics',
+						'labels',
+						identifier,
+					]);
+					op.check(entry);
+					counts.set(identifier, entry.value ?? 0);
+				}
+
+				for (const { val, neg } of operations) {
+					const count = counts.get(val)!;
+					counts.set(val, neg ? Math.max(0, count - 1) : count + 1);
+				}
+				for (const [identifier, count] of counts) {
+					op.set(['metrics', 'labels', identifier], count);
+					op.set(['metrics', 'history', date, identifier], count);
+				}
+				for (const { kind, label } of activity) {
+					op.sum(
+						['metrics', 'activity', 'hour', hour, kind, label],
+						1n,
+					);
+				}
+
+				const result = await op.commit();
+				if (result.ok) {
+					for (const [identifier, count] of counts) {
+						this.logger.info(`Count for label ${identifier} is now ${count}`);
+					}
+					return;
+				}
+			}
+		} catch (error) {
+			throw this.error(`Failed to update metrics for ${identifiers}`, error);
+		}
+
+		throw this.error(
+			`Failed to update metrics for ${identifiers}`,
+			`gave up after ${MAX_COMMIT_ATTEMPTS} conflicting attempts`,
+		);
+	}
+
+	private error(message: string, error: unknown): MetricsError {
+		const msg = `${message}: ${
+			error instanceof Error ? error.message : String(error)
+		}`;
+		this.logger.error(msg);
+		return new MetricsError(msg);
+	}
+}
+
+/** The hourly bucket a time falls in, as YYYY-MM-DDTHH (UTC) */
+function hourBucket(time: Date): string {
+	return time.toISOString().slice(0, 13);
+}
+
+/** The daily bucket a time falls in, as YYYY-MM-DD (UTC) */
+function dayBucket(time: Date): string {
+	return time.toISOString().slice(0, 10);
+}
+
+/** Quotes a CSV field if it contains a delimiter, quote or line break */
+function csvField(value: string | number): string {
+	const field = String(value);
+	return /[",\r\n]/.test(field) ? `"${field.replaceAll('"', '""')}"` : field;
 }
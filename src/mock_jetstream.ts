@@ -0,0 +1,230 @@
+/**
+ * Mock Jetstream server
+ * Serves recorded Jetstream events over a local WebSocket in Jetstream's
+ * wire format, so the labeler can run its real Jetstream client, Handler
+ * and reconnect logic against recorded traffic.
+ *
+ * - Listens on /subscribe like Jetstream, honouring the wantedCollections
+ *   (including prefixes such as app.bsky.feed.*), wantedDids and cursor
+ *   query parameters
+ * - Each client receives the recording from its cursor on, paced at the
+ *   configured speed, then stays connected like a live stream
+ * - Events can also be published to all connected clients directly
+ */
+import * as log from '@std/log';
+import { ServerError } from './errors.ts';
+import { Clock, systemClock } from './clock.ts';
+import { readRecordedEvents, RecordedEvent } from './event_source.ts';
+
+/**
+ * A connected client and the events it subscribed to.
+ */
+interface Subscriber {
+	socket: WebSocket;
+	wantedCollections: string[];
+	wantedDids: string[];
+	cursor?: number;
+}
+
+/**
+ * Options for serving a recording.
+ */
+export interface MockJetstreamOptions {
+	/** The NDJSON recording to stream to each client, if any */
+	recording?: string;
+	/**
+	 * Replay speed relative to the recorded timing, or 0 to send events as
+	 * fast as possible
+	 */
+	speed?: number;
+	/** The clock pacing the replay */
+	clock?: Clock;
+}
+
+/**
+ * A local WebSocket server speaking Jetstream's wire format.
+ */
+export class MockJetstreamServer {
+	private readonly logger = log.getLogger();
+	private readonly subscribers = new Set<Subscriber>();
+	private readonly clock: Clock;
+	private server: Deno.HttpServer<Deno.NetAddr> | null = null;
+	/** The cursor each client subscribed from, in order */
+	readonly connections: (number | undefined)[] = [];
+
+	/**
+	 * @param port - The port to listen on
+	 * @param options - The recording to serve and its replay speed
+	 */
+	constructor(
+		private readonly port: number,
+		private readonly options: MockJetstreamOptions = {},
+	) {
+		this.clock = options.clock ?? systemClock;
+	}
+
+	/**
+	 * Number of connected clients
+	 */
+	get clients(): number {
+		return this.subscribers.size;
+	}
+
+	/**
+	 * The port the server is listening on, or null if it is not running.
+	 * Differs from the configured port when that is 0.
+	 */
+	get listeningPort(): number | null {
+		return this.server?.addr.port ?? null;
+	}
+
+	/**
+	 * Starts listening
+	 *
+	 * @throws {ServerError} If the listener cannot be started
+	 */
+	start(): void {
+		try {
+			this.server = Deno.serve(
+				{
+					port: this.port,
+					onListen: ({ port }) =>
+						this.logger.info(
+							`Mock Jetstream listening on ws://localhost:${port}/subscribe`,
+						),
+				},
+				(request) => this.handle(request),
+			);
+		} catch (error) {
+			const msg = `Failed to start mock Jetstream: ${
+				error instanceof Error ? error.message : String(error)
+			}`;
+			this.logger.error(msg);
+			throw new ServerError(msg);
+		}
+	}
+
+	/**
+	 * Sends an event to every client subscribed to it
+	 */
+	publish(event: RecordedEvent): void {
+		const message = JSON.stringify(event);
+		for (const subscriber of this.subscribers) {
+			if (matches(subscriber, event)) {
+				subscriber.socket.send(message);
+			}
+		}
+	}
+
+	/**
+	 * Disconnects all clients and stops listening
+	 */
+	async shutdown(): Promise<void> {
+		for (const { socket } of this.subscribers) {
+			socket.close(1001, 'Server shutting down');
+		}
+		this.subscribers.clear();
+		await this.server?.shutdown();
+		this.server = null;
+	}
+
+	private handle(request: Request): Response {
+		const url = new URL(request.url);
+		if (url.pathname !== '/subscribe') {
+			return new Response('Not Found\n', { status: 404 });
+		}
+		if (request.headers.get('upgrade')?.toLowerCase() !== 'websocket') {
+			return new Response('Expected a WebSocket upgrade\n', { status: 426 });
+		}
+
+		const cursor = Number(url.searchParams.get('cursor'));
+		const { socket, response } = Deno.upgradeWebSocket(request);
+		const subscriber: Subscriber = {
+			socket,
+			wantedCollections: url.searchParams.getAll('wantedCollections'),
+			wantedDids: url.searchParams.getAll('wantedDids'),
+			cursor: cursor > 0 ? cursor : undefined,
+		};
+
+		socket.addEventListener('open', () => {
+			this.subscribers.add(subscriber);
+			this.connections.push(subscriber.cursor);
+			this.logger.info(
+				`Client subscribed to ${
+					subscriber.wantedCollections.join(', ') || 'all collections'
+				}` + (subscriber.cursor ? ` from cursor ${subscriber.cursor}` : ''),
+			);
+			if (this.options.recording) {
+				this.stream(subscriber, this.options.recording).catch((error) => {
+					this.logger.error(
+						`Streaming ${this.options.recording} failed: ${
+							error instanceof Error ? error.message : String(error)
+						}`,
+					);
+				});
+			}
+		});
+		socket.addEventListener('close', () => this.subscribers.delete(subscriber));
+
+		return response;
+	}
+
+	/**
+	 * Streams the recording to one client, from its cursor on
+	 */
+	private async stream(subscriber: Subscriber, path: string): Promise<void> {
+		const speed = this.options.speed ?? 0;
+		const file = await Deno.open(path);
+		let previous: number | null = null;
+		let sent = 0;
+
+		for await (const event of readRecordedEvents(file.readable)) {
+			if (!this.subscribers.has(subscriber)) {
+				break;
+			}
+			if (
+				subscriber.cursor !== undefined && event.time_us < subscriber.cursor
+			) {
+				continue;
+			}
+			if (speed > 0 && previous !== null && event.time_us > previous) {
+				const delay = (event.time_us - previous) / 1000 / speed;
+				await new Promise<void>((resolve) =>
+					this.clock.setTimeout(resolve, delay)
+				);
+			}
+			previous = event.time_us;
+			if (
+				matches(subscriber, event) &&
+				subscriber.socket.readyState === WebSocket.OPEN
+			) {
+				subscriber.socket.send(JSON.stringify(event));
+				sent++;
+			}
+		}
+
+		this.logger.info(`Sent ${sent} recorded events to client`);
+	}
+}
+
+/**
+ * Whether an event passes a client's filters. Like Jetstream, collection
+ * filters only apply to commits, and a trailing .* matches a prefix.
+ */
+function matches(subscriber: Subscriber, event: RecordedEvent): boolean {
+	if (
+		subscriber.wantedDids.length > 0 &&
+		!subscriber.wantedDids.includes(event.did)
+	) {
+		return false;
+	}
+	if (!event.commit || subscriber.wantedCollections.length === 0) {
+		return true;
+	}
+	const collection = event.commit.collection;
+	return subscriber.wantedCollections.some((wanted) =>
+		wanted.endsWith('.*')
+			? collection.startsWith(wanted.slice(0, -1))
+			: collection === wanted
+	);
+}
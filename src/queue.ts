@@ -0,0 +1,144 @@
+/**
+ * Ingestion queue module
+ * Sits between the Jetstream callbacks and the Labeler.
+ *
+ * Key Features:
+ * - Work for the same subject DID runs strictly in arrival order
+ * - Work for different DIDs runs concurrently, up to a fixed bound
+ * - Bounded capacity: when full, new work is shed and counted
+ * - Exposes depth, active and dropped counts for monitoring
+ */
+import * as log from '@std/log';
+
+/** A unit of work to run for a subject */
+type Task = () => Promise<void>;
+
+/**
+ * Queue that serializes tasks per key and runs different keys concurrently.
+ */
+export class SubjectQueue {
+	private readonly logger = log.getLogger();
+	private readonly pending = new Map<string, Task[]>();
+	private readonly ready: string[] = [];
+	private readonly activeKeys = new Set<string>();
+	private queued = 0;
+	private droppedCount = 0;
+	private idleResolvers: (() => void)[] = [];
+
+	/**
+	 * @param concurrency - Maximum number of subjects processed at once
+	 * @param capacity - Maximum number of queued and running tasks
+	 */
+	constructor(
+		private readonly concurrency: number,
+		private readonly capacity: number,
+	) {}
+
+	/**
+	 * Total number of tasks waiting or running
+	 */
+	get depth(): number {
+		return this.queued + this.activeKeys.size;
+	}
+
+	/**
+	 * Number of tasks currently running
+	 */
+	get active(): number {
+		return this.activeKeys.size;
+	}
+
+	/**
+	 * Number of tasks shed because the queue was full
+	 */
+	get dropped(): number {
+		return this.droppedCount;
+	}
+
+	/**
+	 * Whether work for the given key is queued or running
+	 */
+	has(key: string): boolean {
+		return this.pending.has(key) || this.activeKeys.has(key);
+	}
+
+	/**
+	 * Adds a task for the given key.
+	 *
+	 * @param key - The subject the task belongs to
+	 * @param task - The work to run once earlier tasks for the key are done
+	 * @returns false if the queue is full and the task was shed
+	 */
+	enqueue(key: string, task: Task): boolean {
+		if (this.depth >= this.capacity) {
+			this.droppedCount++;
+			return false;
+		}
+
+		const tasks = this.pending.get(key);
+		if (tasks) {
+			tasks.push(task);
+		} else {
+			this.pending.set(key, [task]);
+			if (!this.activeKeys.has(key)) {
+				this.ready.push(key);
+			}
+		}
+		this.queued++;
+		this.pump();
+		return true;
+	}
+
+	/**
+	 * Resolves once every queued and running task has finished
+	 */
+	onIdle(): Promise<void> {
+		if (this.depth === 0) {
+			return Promise.resolve();
+		}
+		return new Promise((resolve) => this.idleResolvers.push(resolve));
+	}
+
+	private pump(): void {
+		while (this.activeKeys.size < this.concurrency && this.ready.length > 0) {
+			const key = this.ready.shift()!;
+			const tasks = this.pending.get(key);
+			const task = tasks?.shift();
+			if (!task) {
+				this.pending.delete(key);
+				continue;
+			}
+			if (tasks!.length === 0) {
+				this.pending.delete(key);
+			}
+
+			this.queued--;
+			this.activeKeys.add(key);
+			this.run(key, task);
+		}
+
+		if (this.depth === 0 && this.idleResolvers.length > 0) {
+			const resolvers = this.idleResolvers;
+			this.idleResolvers = [];
+			resolvers.forEach((resolve) => resolve());
+		}
+	}
+
+	private run(key: string, task: Task): void {
+		task()
+			.catch((error) => {
+				this.logger.error(
+					`Queued task for ${key} failed: ${
+						error instanceof Error ? error.message : String(error)
+					}`,
+				);
+			})
+			.finally(() => {
+				this.activeKeys.delete(key);
+				if (this.pending.has(key)) {
+					this.ready.push(key);
+				}
+				this.pump();
+			});
+	}
+}
@@ -0,0 +1,213 @@
+/**
+ * Metrics reconciliation
+ * Recomputes label counts from the labeler's label database and compares
+ * them with the counters in KV, optionally correcting them.
+ *
+ * The label database is the source of truth: a user holds a label if the
+ * most recent entry for it is not a negation, the same way the labeler
+ * decides which labels are active.
+ */
+import { LabelerServer } from 'skyware';
+import * as log from '@std/log';
+import { LabelIdentifier } from './schemas.ts';
+import { LabelMetrics, MetricsTracker } from './metrics.ts';
+import { LabelOperation } from './rules_engine.ts';
+import { MetricsError } from './errors.ts';
+
+/**
+ * A row of the labels table, as needed to fold active labels.
+ */
+export interface LabelRow {
+	uri: string;
+	val: string;
+	neg: boolean | number;
+}
+
+/**
+ * A label whose count in KV differs from the label database.
+ */
+export interface MetricsDifference {
+	label: LabelIdentifier;
+	/** The count derived from the label database */
+	expected: number;
+	/** The count stored in KV */
+	actual: number;
+}
+
+/**
+ * The outcome of a reconciliation.
+ */
+export interface ReconcileReport {
+	/** Number of subjects holding at least one label */
+	subjects: number;
+	/** The counts derived from the label database */
+	expected: LabelMetrics;
+	differences: MetricsDifference[];
+	/** Whether the KV counters were corrected */
+	fixed: boolean;
+}
+
+/**
+ * Folds label rows for one subject into its active labels.
+ * Rows must be ordered oldest first.
+ *
+ * @returns Active label values, in the order they were applied
+ */
+export function activeLabels(rows: readonly LabelRow[]): LabelIdentifier[] {
+	const latest = new Map<string, boolean>();
+	for (const row of rows) {
+		// Re-inserting keeps the Map ordered by most recent entry
+		latest.delete(row.val);
+		latest.set(row.val, Boolean(row.neg));
+	}
+
+	return [...latest]
+		.filter(([, neg]) => !neg)
+		.map(([val]) => val as LabelIdentifier);
+}
+
+/**
+ * Counts the subjects holding each label.
+ * Rows must be ordered oldest first.
+ *
+ * @returns The counts per label and the number of labeled subjects
+ */
+export function countActiveLabels(
+	rows: readonly LabelRow[],
+): { counts: LabelMetrics; subjects: number } {
+	const bySubject = new Map<string, LabelRow[]>();
+	for (const row of rows) {
+		const subjectRows = bySubject.get(row.uri) ?? [];
+		subjectRows.push(row);
+		bySubject.set(row.uri, subjectRows);
+	}
+
+	const counts: LabelMetrics = {};
+	let subjects = 0;
+	for (const subjectRows of bySubject.values()) {
+		const active = activeLabels(subjectRows);
+		if (active.length > 0) subjects++;
+		for (const val of active) {
+			counts[val] = (counts[val] ?? 0) + 1;
+		}
+	}
+	return { counts, subjects };
+}
+
+/**
+ * Lists the labels whose actual count differs from the expected count.
+ * Labels missing from either side count as zero.
+ */
+export function diffMetrics(
+	expected: LabelMetrics,
+	actual: LabelMetrics,
+): MetricsDifference[] {
+	const labels = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+	return [...labels]
+		.sort()
+		.map((label) => ({
+			label,
+			expected: expected[label] ?? 0,
+			actual: actual[label] ?? 0,
+		}))
+		.filter((difference) => difference.expected !== difference.actual);
+}
+
+/**
+ * Compares the KV counters with the counts derived from the label
+ * database, and corrects the counters when fix is set.
+ *
+ * @param db - The label database of the LabelerServer
+ * @param did - The labeler DID; labels from other sources are not counted
+ * @param metrics - The MetricsTracker holding the counters
+ * @param options - Set fix to overwrite the counters with the derived counts
+ * @returns The reconciliation report
+ * @throws {MetricsError} If the database cannot be read
+ */
+export async function reconcileMetrics(
+	db: LabelerServer['db'],
+	did: string,
+	metrics: MetricsTracker,
+	options: { fix?: boolean } = {},
+): Promise<ReconcileReport> {
+	const logger = log.getLogger();
+
+	let rows: LabelRow[];
+	try {
+		const query = await db.prepare(`
+			SELECT uri, val, neg FROM labels
+			WHERE src = ?
+			ORDER BY cts ASC, id ASC
+		`);
+		rows = await query.all(did) as LabelRow[];
+	} catch (error) {
+		const msg = `Failed to read label database: ${
+			error instanceof Error ? error.message : String(error)
+		}`;
+		logger.error(msg);
+		throw new MetricsError(msg);
+	}
+
+	const { counts, subjects } = countActiveLabels(rows);
+	const differences = diffMetrics(counts, await metrics.getLabelMetrics());
+
+	for (const { label, expected, actual } of differences) {
+		logger.warn(
+			`Metrics drift for ${label}: KV has ${actual}, expected ${expected}`,
+		);
+	}
+
+	const fixed = Boolean(options.fix) && differences.length > 0;
+	if (fixed) {
+		await metrics.setLabelCounts(counts);
+		logger.info(`Corrected ${differences.length} label counters`);
+	}
+
+	return { subjects, expected: counts, differences, fixed };
+}
+
+/**
+ * Commits metrics updates left pending by a crash between emitting labels
+ * and updating the metrics. Only the operations the labeler emitted since
+ * the update was journaled are counted.
+ *
+ * @param db - The labeler's label database
+ * @param did - The labeler DID, as the source of its labels
+ * @param metrics - The MetricsTracker holding the journal
+ * @returns The number of pending updates recovered
+ */
+export async function recoverMetrics(
+	db: LabelerServer['db'],
+	did: string,
+	metrics: MetricsTracker,
+): Promise<number> {
+	const logger = log.getLogger();
+	const updates = await metrics.pending();
+	const query = await db.prepare(`
+		SELECT 1 FROM labels
+		WHERE uri = ? AND val = ? AND neg = ? AND src = ? AND cts >= ?
+		LIMIT 1
+	`);
+
+	for (const update of updates) {
+		const emitted: LabelOperation[] = [];
+		for (const operation of update.operations) {
+			const row = await query.get(
+				update.subject,
+				operation.val,
+				operation.neg ? 1 : 0,
+				did,
+				update.createdAt,
+			);
+			if (row) {
+				emitted.push(operation);
+			}
+		}
+		await metrics.commit(update, emitted);
+		logger.info(
+			`Recovered metrics for ${update.subject}: ` +
+				`${emitted.length} of ${update.operations.length} operations emitted`,
+		);
+	}
+	return updates.length;
+}
@@ -0,0 +1,120 @@
+/**
+ * Reconnect policies
+ * Decide how long the connection handler waits before each reconnection
+ * attempt.
+ *
+ * - exponential: exponential backoff with full jitter, the delay before
+ *   attempt n is drawn uniformly from [0, min(maxDelay, baseDelay * 2^n)]
+ * - circuit-breaker: exponential backoff until failureThreshold attempts
+ *   failed, then the circuit opens and a single probe is made every
+ *   openDuration until a connection succeeds
+ * - Both can retry immediately after the first failure, so a brief blip
+ *   costs no delay at all
+ * - Randomness is injectable, so delays can be checked deterministically
+ */
+import * as log from '@std/log';
+import { ReconnectPolicyConfig } from './schemas.ts';
+
+/**
+ * Decides the delay before each reconnection attempt.
+ * Attempts are counted by the caller and reset on a successful connection.
+ */
+export interface ReconnectPolicy {
+	/**
+	 * @param attempt - Failed attempts since the last successful connection,
+	 *   0 for the first retry
+	 * @returns The delay before the attempt, in milliseconds
+	 */
+	nextDelay(attempt: number): number;
+}
+
+/**
+ * Exponential backoff with full jitter.
+ */
+export class ExponentialBackoff implements ReconnectPolicy {
+	/**
+	 * @param baseDelay - Upper bound of the first jittered delay, in milliseconds
+	 * @param maxDelay - Upper bound of any delay, in milliseconds
+	 * @param immediateFirstRetry - Whether the first retry happens without delay
+	 * @param random - Source of uniform random numbers in [0, 1)
+	 */
+	constructor(
+		private readonly baseDelay: number,
+		private readonly maxDelay: number,
+		private readonly immediateFirstRetry = true,
+		private readonly random: () => number = Math.random,
+	) {}
+
+	nextDelay(attempt: number): number {
+		if (this.immediateFirstRetry) {
+			if (attempt === 0) {
+				return 0;
+			}
+			attempt--;
+		}
+		const ceiling = Math.min(this.maxDelay, this.baseDelay * 2 ** attempt);
+		return Math.floor(this.random() * ceiling);
+	}
+}
+
+/**
+ * Backs off exponentially until the failure threshold is reached, then
+ * opens the circuit: every further attempt is a half-open probe made after
+ * the open duration. A successful probe resets the attempt count and so
+ * closes the circuit again.
+ */
+export class CircuitBreaker implements ReconnectPolicy {
+	private readonly logger = log.getLogger();
+
+	/**
+	 * @param backoff - The policy used while the circuit is closed
+	 * @param failureThreshold - Failed attempts after which the circuit opens
+	 * @param openDuration - Time between probes while open, in milliseconds
+	 */
+	constructor(
+		private readonly backoff: ReconnectPolicy,
+		private readonly failureThreshold: number,
+		private readonly openDuration: number,
+	) {}
+
+	nextDelay(attempt: number): number {
+		if (attempt < this.failureThreshold) {
+			return this.backoff.nextDelay(attempt);
+		}
+		if (attempt === this.failureThreshold) {
+			this.logger.warn(
+				`Circuit opened after ${attempt} failed reconnection attempts, ` +
+					`probing every ${Math.round(this.openDuration / 1000)}s`,
+			);
+		}
+		return this.openDuration;
+	}
+}
+
+/**
+ * Builds the reconnect policy described by the configuration
+ *
+ * @param config - The RECONNECT_POLICY configuration
+ * @param random - Source of uniform random numbers in [0, 1)
+ */
+export function createReconnectPolicy(
+	config: ReconnectPolicyConfig,
+	random: () => number = Math.random,
+): ReconnectPolicy {
+	const backoff = new ExponentialBackoff(
+		config.baseDelay,
+		config.maxDelay,
+		config.immediateFirstRetry,
+		random,
+	);
+	switch (config.strategy) {
+		case 'exponential':
+			return backoff;
+		case 'circuit-breaker':
+			return new CircuitBreaker(
+				backoff,
+				config.failureThreshold,
+				config.openDuration,
+			);
+	}
+}
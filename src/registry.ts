@@ -0,0 +1,226 @@
+/**
+ * Label registry
+ * Stores the label posts and removal posts known to the labeler in Deno KV,
+ * so labels can be added or changed at runtime without a redeploy.
+ *
+ * Key Features:
+ * - Entries are typed as label posts or removal posts, keyed by post rkey
+ * - Every entry is validated against RegistryEntrySchema
+ * - Seeded from labels.ts on first run, taking over the removal post of
+ *   the legacy REMOVAL_RKEY config key
+ * - Read live on every lookup, so changes apply without a restart
+ */
+import * as log from '@std/log';
+import {
+	Label,
+	LabelCategory,
+	LabelIdentifier,
+	RegistryEntry,
+	RegistryEntrySchema,
+	Rkey,
+	RkeySchema,
+} from './schemas.ts';
+import { LABELS, REMOVAL_POSTS } from './labels.ts';
+import { RegistryError } from './errors.ts';
+
+/**
+ * Manages label registry entries in Deno KV.
+ */
+export class LabelRegistry {
+	private readonly logger: log.Logger;
+
+	constructor(private readonly kv: Deno.Kv) {
+		this.logger = log.getLogger();
+	}
+
+	/**
+	 * Seeds the registry from labels.ts unless it has been seeded before.
+	 * Entries removed later are not re-created on restart.
+	 *
+	 * A removal post configured with the legacy REMOVAL_RKEY config key takes
+	 * the place of the default removal posts, or is added to an existing
+	 * registry, and the legacy key is deleted.
+	 *
+	 * @returns true if the registry was seeded
+	 * @throws {RegistryError} If seeding fails
+	 */
+	async seed(): Promise<boolean> {
+		try {
+			const marker = await this.kv.get(['registry', 'seeded']);
+			const legacy = await this.kv.get<string>(['config', 'REMOVAL_RKEY']);
+			if (marker.value !== null) {
+				await this.migrateRemovalRkey(legacy);
+				return false;
+			}
+
+			const removals = legacy.value !== null
+				? [{ rkey: legacy.value }]
+				: REMOVAL_POSTS;
+			const entries = [
+				...LABELS.map((label) => ({ type: 'label', ...label })),
+				...removals.map((post) => ({ type: 'removal', ...post })),
+			].map((entry) => RegistryEntrySchema.parse(entry));
+
+			const op = this.kv.atomic().check(marker, legacy);
+			for (const entry of entries) {
+				op.set(['registry', 'posts', entry.rkey], entry);
+			}
+			op.set(['registry', 'seeded'], new Date().toISOString());
+			op.delete(legacy.key);
+
+			const result = await op.commit();
+			if (!result.ok) {
+				this.logger.info('Label registry was seeded concurrently');
+				return false;
+			}
+
+			this.logger.info(
+				`Seeded label registry with ${entries.length} entries from labels.ts`,
+			);
+			return true;
+		} catch (error) {
+			throw this.error('Failed to seed label registry', error);
+		}
+	}
+
+	/**
+	 * Moves the removal post of the legacy REMOVAL_RKEY config key into an
+	 * already seeded registry, keeping any entry that exists for the post
+	 */
+	private async migrateRemovalRkey(
+		legacy: Deno.KvEntryMaybe<string>,
+	): Promise<void> {
+		if (legacy.value === null) {
+			return;
+		}
+
+		const entry = RegistryEntrySchema.parse({
+			type: 'removal',
+			rkey: legacy.value,
+		});
+		const existing = await this.kv.get(['registry', 'posts', entry.rkey]);
+		const op = this.kv.atomic().check(legacy, existing).delete(legacy.key);
+		if (existing.value === null) {
+			op.set(existing.key, entry);
+		}
+
+		const result = await op.commit();
+		if (result.ok) {
+			this.logger.info(
+				`Migrated REMOVAL_RKEY ${entry.rkey} to the label registry`,
+			);
+		}
+	}
+
+	/**
+	 * Gets the entry for a post, or null if the post is unknown
+	 */
+	async get(rkey: Rkey): Promise<RegistryEntry | null> {
+		try {
+			const result = await this.kv.get<RegistryEntry>([
+				'registry',
+				'posts',
+				RkeySchema.parse(rkey),
+			]);
+			return result.value;
+		} catch (error) {
+			throw this.error(`Failed to get registry entry ${rkey}`, error);
+		}
+	}
+
+	/**
+	 * Lists all registry entries
+	 */
+	async list(): Promise<RegistryEntry[]> {
+		try {
+			const entries: RegistryEntry[] = [];
+			for await (
+				const entry of this.kv.list<RegistryEntry>({
+					prefix: ['registry', 'posts'],
+				})
+			) {
+				entries.push(entry.value);
+			}
+			return entries;
+		} catch (error) {
+			throw this.error('Failed to list registry entries', error);
+		}
+	}
+
+	/**
+	 * Lists all label posts
+	 */
+	async labels(): Promise<Label[]> {
+		const entries = await this.list();
+		return entries
+			.filter((entry): entry is Extract<RegistryEntry, { type: 'label' }> =>
+				entry.type === 'label'
+			)
+			.map(({ type: _type, ...label }) => label);
+	}
+
+	/**
+	 * Builds a lookup of label identifier to category from the label posts
+	 */
+	async categories(): Promise<Map<LabelIdentifier, LabelCategory>> {
+		const labels = await this.labels();
+		return new Map(labels.map((label) => [label.identifier, label.category]));
+	}
+
+	/**
+	 * Creates or replaces a registry entry.
+	 * A label identifier must keep the same category across all its posts.
+	 *
+	 * @throws {RegistryError} If the entry is invalid or conflicts
+	 */
+	async put(entry: RegistryEntry): Promise<void> {
+		const validated = RegistryEntrySchema.safeParse(entry);
+		if (!validated.success) {
+			throw new RegistryError(
+				`Invalid registry entry: ${
+					validated.error.errors.map((e) => e.message).join(', ')
+				}`,
+			);
+		}
+
+		const value = validated.data;
+		if (value.type === 'label') {
+			const conflict = (await this.labels()).find((label) =>
+				label.identifier === value.identifier &&
+				label.category !== value.category && label.rkey !== value.rkey
+			);
+			if (conflict) {
+				throw new RegistryError(
+					`Label ${value.identifier} already belongs to category ${conflict.category}`,
+				);
+			}
+		}
+
+		try {
+			await this.kv.set(['registry', 'posts', value.rkey], value);
+			this.logger.info(`Registry entry set: ${JSON.stringify(value)}`);
+		} catch (error) {
+			throw this.error(`Failed to set registry entry ${value.rkey}`, error);
+		}
+	}
+
+	/**
+	 * Deletes a registry entry
+	 */
+	async delete(rkey: Rkey): Promise<void> {
+		try {
+			await this.kv.delete(['registry', 'posts', RkeySchema.parse(rkey)]);
+			this.logger.info(`Registry entry deleted: ${rkey}`);
+		} catch (error) {
+			throw this.error(`Failed to delete registry entry ${rkey}`, error);
+		}
+	}
+
+	private error(message: string, error: unknown): RegistryError {
+		const msg = `${message}: ${
+			error instanceof Error ? error.message : String(error)
+		}`;
+		this.logger.error(msg);
+		return new RegistryError(msg);
+	}
+}
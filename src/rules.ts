@@ -0,0 +1,37 @@
+/**
+ * Rule definitions
+ *
+ * This module defines the built-in rules for label transitions.
+ * Rules are evaluated in order and the first matching rule wins.
+ * A JSON file of the same shape can replace them through RULES_PATH.
+ */
+
+/**
+ * Readonly array of Rule objects that are validated against the schema.
+ * Each rule is comprised of a name, match, optional conditions, action
+ * and optional label.
+ */
+export const RULES = [
+	// Liking a removal post removes every active label in its category,
+	// or every active label if it has no category
+	{
+		name: 'decommission',
+		match: { kind: 'removal-post' },
+		action: 'negate',
+	},
+	// Liking a label post switches to that label within its category,
+	// keeping labels from other categories
+	{
+		name: 'choose-label',
+		match: { kind: 'label-post' },
+		action: 'replace',
+	},
+	// Granted labels only apply to users without a label in the granted
+	// label's category, as registered
+	{
+		name: 'default-label',
+		match: { kind: 'grant' },
+		conditions: [{ if: 'none', sameCategory: true }],
+		action: 'replace',
+	},
+] as const;
@@ -0,0 +1,201 @@
+/**
+ * Rules engine for label transitions
+ * Decides which labels to apply or negate for a trigger, based on an
+ * ordered list of declarative rules and the user's active labels.
+ *
+ * The engine is pure: it performs no I/O and has no dependency on the
+ * LabelerServer, so rules can be evaluated and tested in isolation.
+ */
+import { z } from 'zod';
+import {
+	LabelCategory,
+	LabelIdentifier,
+	Rule,
+	RuleAction,
+	RuleCondition,
+	RuleMatch,
+	RulesSchema,
+} from './schemas.ts';
+import { RULES } from './rules.ts';
+import { ConfigurationError } from './errors.ts';
+
+/** The kind of trigger a rule can match */
+export type TriggerKind = NonNullable<RuleMatch['kind']>;
+
+/**
+ * Everything the engine needs to know about a trigger.
+ */
+export interface RuleContext {
+	/** What the trigger points at */
+	kind: TriggerKind;
+	/** The collection of the trigger record, if the change has one */
+	collection?: string;
+	/** The record key of the targeted post, if the trigger targets a post */
+	rkey?: string;
+	/** The label the trigger points at, if any */
+	label?: LabelIdentifier;
+	/** The category a removal post is limited to, if any */
+	category?: LabelCategory;
+	/** The labels currently active for the user */
+	active: readonly LabelIdentifier[];
+	/** Looks up the category of a label */
+	categoryOf: (identifier: LabelIdentifier) => LabelCategory | undefined;
+}
+
+/**
+ * A single label to create, or negate when neg is set.
+ */
+export interface LabelOperation {
+	val: LabelIdentifier;
+	neg: boolean;
+}
+
+/**
+ * The outcome of evaluating rules for a trigger.
+ */
+export interface Decision {
+	/** The rule that fired, or null if no rule matched */
+	rule: Rule | null;
+	/** The action taken */
+	action: RuleAction;
+	/** The labels to create or negate, in order */
+	operations: LabelOperation[];
+	/** The label the trigger leaves active, so deleting it can undo it */
+	granted: LabelIdentifier | null;
+}
+
+/**
+ * Evaluates rules in order and returns the decision of the first rule that
+ * matches the trigger and whose conditions all hold.
+ *
+ * @param rules - The ordered rules to evaluate
+ * @param context - The trigger and the user's active labels
+ * @returns The decision, which is an ignore decision if no rule matched
+ */
+export function evaluateRules(
+	rules: readonly Rule[],
+	context: RuleContext,
+): Decision {
+	const rule = rules.find((rule) =>
+		matches(rule.match, context) &&
+		rule.conditions.every((condition) =>
+			holds(condition, rule.label ?? context.label, context)
+		)
+	);
+	if (!rule) {
+		return { rule: null, action: 'ignore', operations: [], granted: null };
+	}
+
+	const label = rule.label ?? context.label;
+	const isActive = (val: LabelIdentifier) => context.active.includes(val);
+	const decide = (
+		operations: LabelOperation[],
+		granted: LabelIdentifier | null,
+	): Decision => ({ rule, action: rule.action, operations, granted });
+
+	switch (rule.action) {
+		case 'ignore':
+			return decide([], null);
+		case 'apply':
+			if (!label) return decide([], null);
+			return decide(isActive(label) ? [] : [{ val: label, neg: false }], label);
+		case 'negate':
+			if (!label) {
+				return decide(
+					context.active
+						.filter((val) =>
+							inCategory(val, rule.category ?? context.category, context)
+						)
+						.map((val) => ({ val, neg: true })),
+					null,
+				);
+			}
+			return decide(isActive(label) ? [{ val: label, neg: true }] : [], null);
+		case 'toggle':
+			if (!label) return decide([], null);
+			return isActive(label)
+				? decide([{ val: label, neg: true }], null)
+				: decide([{ val: label, neg: false }], label);
+		case 'replace': {
+			if (!label) return decide([], null);
+			if (isActive(label)) return decide([], label);
+			const category = context.categoryOf(label);
+			const negations = context.active
+				.filter((val) => context.categoryOf(val) === category)
+				.map((val) => ({ val, neg: true }));
+			return decide([...negations, { val: label, neg: false }], label);
+		}
+	}
+}
+
+/**
+ * Loads and validates rules from a JSON file, or the built-in rules
+ * when no path is given.
+ *
+ * @param path - Path to a JSON rules file, or an empty string
+ * @returns The validated rules
+ * @throws {ConfigurationError} If the file cannot be read or is invalid
+ */
+export async function loadRules(path: string): Promise<Rule[]> {
+	try {
+		const source = path ? JSON.parse(await Deno.readTextFile(path)) : RULES;
+		return RulesSchema.parse(source);
+	} catch (error) {
+		const message = error instanceof z.ZodError
+			? error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(
+				', ',
+			)
+			: error instanceof Error
+			? error.message
+			: String(error);
+		throw new ConfigurationError(
+			`Invalid rules${path ? ` in ${path}` : ''}: ${message}`,
+		);
+	}
+}
+
+function matches(match: RuleMatch, context: RuleContext): boolean {
+	return (match.kind === undefined || match.kind === context.kind) &&
+		(match.collection === undefined ||
+			match.collection === context.collection) &&
+		(match.rkey === undefined || match.rkey === context.rkey) &&
+		(match.label === undefined || match.label === context.label);
+}
+
+function holds(
+	condition: RuleCondition,
+	label: LabelIdentifier | undefined,
+	context: RuleContext,
+): boolean {
+	switch (condition.if) {
+		case 'none':
+			if (condition.sameCategory) {
+				// Labels missing from the registry share no category
+				const category = label === undefined
+					? undefined
+					: context.categoryOf(label);
+				return !context.active.some((val) =>
+					category !== undefined && context.categoryOf(val) === category
+				);
+			}
+			return !context.active.some((val) =>
+				inCategory(val, condition.category, context)
+			);
+		case 'current':
+			return condition.label === undefined
+				? context.active.some((val) =>
+					inCategory(val, condition.category, context)
+				)
+				: context.active.includes(condition.label);
+		case 'not-current':
+			return !context.active.includes(condition.label);
+	}
+}
+
+function inCategory(
+	val: LabelIdentifier,
+	category: LabelCategory | undefined,
+	context: RuleContext,
+): boolean {
+	return category === undefined || context.categoryOf(val) === category;
+}
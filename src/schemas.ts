@@ -1,11 +1,12 @@
 // - Defines all Zod schemas for data validation
-// - Includes schemas for Rkey, Did, SigningKey, LabelIdentifier, LabelCategory, Label, and Config
+// - Includes schemas for Rkey, Did, SubjectDid, LabelerDid, SigningKey, LabelIdentifier, LabelCategory, LabelDefinition, LabelValueDefinition, Label, RemovalPost, RegistryEntry, Nsid, Handle, AtUri, PostUri, LikeRecord, Trigger, Rule, ReconnectPolicy, EventSource, RecordedCreateEvent, RecordedDeleteEvent, and Config
 // - Provides type definitions derived from schemas
 // - Implements utility functions for exhaustive type checking
-// - Exports CATEGORIES object for category enumeration
+// - Validates the seed labels in labels.ts
 
 import { z } from 'zod';
-import { LABELS } from './labels.ts';
+import { CommitCreateEvent, CommitDeleteEvent } from 'jetstream';
+import { LABELS, REMOVAL_POSTS } from './labels.ts';
 
 /**
  * RkeySchema (aka TID)
@@ -21,14 +22,60 @@ export const RkeySchema = z.union([
 
 /**
  * DidSchema
+ * - any DID in the atproto DID syntax, whatever its method
+ * - "did:", a lowercase method name, ":" and a method-specific identifier
+ * - identifier of ASCII letters, digits and . _ : % -, not ending in : or %
+ * - at most 2048 characters
+ */
+export const DidSchema = z.string()
+	.max(2048)
+	.regex(/^did:[a-z]+:[a-zA-Z0-9._:%-]*[a-zA-Z0-9._-]$/);
+
+/**
+ * PlcDidSchema
  * - 32-character string (including "did:plc:")
  * - lowercase ASCII: a-z, 2-7, and : (no 0189)
  * - identifier derived from genesis operation hash
  * - last 24 characters are encoded as standard base32
  */
-export const DidSchema = z.string()
+export const PlcDidSchema = z.string()
 	.regex(/^did:plc:[a-z2-7]{24}$/);
 
+/**
+ * WebDidSchema
+ * - "did:web:" followed by a lowercase hostname
+ * - hostname-level only: atproto does not support did:web paths
+ * - at least two dot-separated labels of a-z, 0-9 and inner hyphens, with
+ *   a top-level domain that does not start with a digit
+ * - a port is only allowed for localhost, percent-encoded as %3A
+ */
+export const WebDidSchema = z.string()
+	.max(2048)
+	.regex(
+		/^did:web:(?:(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z](?:[a-z0-9-]{0,61}[a-z0-9])?|localhost(?:%3A[0-9]{1,5})?)$/,
+	);
+
+/**
+ * SubjectDidSchema
+ * - DID of an account the labeler labels
+ * - did:plc or did:web, the DID methods supported by atproto
+ */
+export const SubjectDidSchema = z.union([PlcDidSchema, WebDidSchema]);
+
+/**
+ * LabelerDidSchema
+ * - DID of the labeler account
+ * - did:plc or did:web, the DID methods supported by atproto
+ * - not localhost, as AppViews must resolve the labeler's DID document to
+ *   find its service endpoint and signing key
+ */
+export const LabelerDidSchema = z.union([
+	PlcDidSchema,
+	WebDidSchema.refine((did) => !did.startsWith('did:web:localhost'), {
+		message: 'The labeler DID must be publicly resolvable',
+	}),
+]);
+
 /**
  * SigningKeySchema
  * - 43-character string
@@ -39,74 +86,479 @@ export const DidSchema = z.string()
 export const SigningKeySchema = z.string().regex(/^[A-Za-z0-9]{43}$/);
 
 /**
- * ConfigSchema
- * - object with DID, SIGNING_KEY, and other configuration fields
- * - all fields are required
- * - strict object (no additional properties allowed)
+ * LabelIdentifierSchema
+ * - label value as used in atproto labels
+ * - 1 to 100 characters
+ * - lowercase ASCII letters and hyphens, as the labeler service lexicon
+ *   requires of custom label values
  */
-export const ConfigSchema = z.object({
-	DID: DidSchema,
-	SIGNING_KEY: SigningKeySchema,
-	JETSTREAM_URL: z.string().url(),
-	COLLECTION: z.string().min(1),
-	CURSOR: z.number().nonnegative().default(0),
-	CURSOR_INTERVAL: z.number().int().positive(),
-	BSKY_HANDLE: z.string().min(1),
-	BSKY_PASSWORD: z.string().min(1),
-	BSKY_URL: z.string().url(),
-	PORT: z.number().int().min(1024),
-	REMOVAL_RKEY: RkeySchema,
+export const LabelIdentifierSchema = z.string()
+	.min(1)
+	.max(100)
+	.regex(/^[a-z-]+$/);
+
+/**
+ * LabelCategorySchema
+ * - name of a group of mutually exclusive labels
+ * - lowercase ASCII letters, digits and hyphens
+ */
+export const LabelCategorySchema = z.string()
+	.min(1)
+	.max(64)
+	.regex(/^[a-z0-9-]+$/);
+
+/**
+ * LabelLocaleSchema
+ * - localized name and description of a label for one language
+ * - lang is a BCP-47 language tag (e.g. en, pt-BR)
+ */
+export const LabelLocaleSchema = z.object({
+	lang: z.string().regex(/^[a-zA-Z]{2,8}(-[a-zA-Z0-9]{1,8})*$/),
+	name: z.string().min(1).max(640),
+	description: z.string().min(1).max(100000),
 }).strict();
 
 /**
- * LabelIdentifierSchema
- * - Enumeration of all valid label identifiers
+ * LabelDefinitionSchema
+ * - how clients display a label, published as a labelValueDefinition
+ * - severity: inform, alert or none
+ * - blurs: content, media or none
+ * - defaultSetting: ignore, warn or hide
+ * - at least one locale is required
  */
-export const LabelIdentifierSchema = z.enum(
-	LABELS.map((label) => label.identifier) as [string, ...string[]],
-);
+export const LabelDefinitionSchema = z.object({
+	severity: z.enum(['inform', 'alert', 'none']),
+	blurs: z.enum(['content', 'media', 'none']),
+	defaultSetting: z.enum(['ignore', 'warn', 'hide']).default('warn'),
+	adultOnly: z.boolean().default(false),
+	locales: z.array(LabelLocaleSchema).min(1),
+}).strict();
 
 /**
- * LabelCategorySchema
- * - Enumeration of all valid label categories
+ * LabelValueDefinitionSchema
+ * - a label definition with its identifier, as the labelValueDefinition
+ *   lexicon of the labeler service declaration requires
  */
-export const LabelCategorySchema = z.enum(
-	LABELS.map((label) => label.category) as [string, ...string[]],
-);
+export const LabelValueDefinitionSchema = LabelDefinitionSchema.extend({
+	identifier: LabelIdentifierSchema,
+});
 
 /**
  * LabelSchema
  * - Object schema for a label, including rkey, identifier, and category
+ * - rkey is the label post that applies the label
+ * - definition describes the label for the labeler service declaration
  */
 export const LabelSchema = z.object({
 	rkey: RkeySchema,
 	identifier: LabelIdentifierSchema,
 	category: LabelCategorySchema,
+	definition: LabelDefinitionSchema.optional(),
+}).strict();
+
+/**
+ * RemovalPostSchema
+ * - Object schema for a post that removes labels, including rkey
+ * - category limits removal to one category, omitted removes all labels
+ */
+export const RemovalPostSchema = z.object({
+	rkey: RkeySchema,
+	category: LabelCategorySchema.optional(),
+}).strict();
+
+/**
+ * RegistryEntrySchema
+ * - a post known to the labeler, typed as a label post or a removal post
+ */
+export const RegistryEntrySchema = z.discriminatedUnion('type', [
+	LabelSchema.extend({ type: z.literal('label') }),
+	RemovalPostSchema.extend({ type: z.literal('removal') }),
+]);
+
+/**
+ * NsidSchema
+ * - Namespaced identifier of a record collection (e.g. app.bsky.feed.like)
+ * - reversed domain authority followed by a name segment
+ */
+export const NsidSchema = z.string()
+	.max(317)
+	.regex(
+		/^[a-zA-Z]([a-zA-Z0-9-]*[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?)+\.[a-zA-Z][a-zA-Z0-9]*$/,
+	);
+
+/** Collection of Bluesky posts */
+export const POST_COLLECTION = 'app.bsky.feed.post';
+
+/**
+ * HandleSchema
+ * - atproto handle of an account (e.g. alice.bsky.social)
+ * - at least two dot-separated labels of ASCII letters, digits and inner
+ *   hyphens, with a top-level domain that does not start with a digit
+ * - at most 253 characters, case-insensitive
+ */
+export const HandleSchema = z.string()
+	.max(253)
+	.regex(
+		/^(?:[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/,
+	);
+
+/**
+ * AtUriSchema
+ * - "at://" followed by an authority, and optionally a collection and a
+ *   record key, separated by "/"
+ * - the authority is a DID or a handle
+ * - the collection is an NSID
+ * - the record key is 1 to 512 characters of A-Z, a-z, 0-9 and . _ ~ : -,
+ *   other than "." and ".."
+ * - no query or fragment
+ * - parsed into its authority, collection and rkey
+ */
+export const AtUriSchema = z.string()
+	.max(8192)
+	.transform((uri, ctx) => {
+		const fail = (message: string) => {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				message: `${message}: ${uri}`,
+			});
+			return z.NEVER;
+		};
+
+		const match = uri.match(
+			/^at:\/\/([^/?#]+)(?:\/([^/?#]+)(?:\/([^/?#]+))?)?$/,
+		);
+		if (!match) {
+			return fail('Invalid AT-URI');
+		}
+		const [, authority, collection, rkey] = match as (string | undefined)[];
+		if (
+			!DidSchema.safeParse(authority).success &&
+			!HandleSchema.safeParse(authority).success
+		) {
+			return fail('Invalid AT-URI authority');
+		}
+		if (collection !== undefined && !NsidSchema.safeParse(collection).success) {
+			return fail('Invalid AT-URI collection');
+		}
+		if (
+			rkey !== undefined &&
+			(!/^[A-Za-z0-9._~:-]{1,512}$/.test(rkey) || rkey === '.' || rkey === '..')
+		) {
+			return fail('Invalid AT-URI record key');
+		}
+		return { authority: authority!, collection, rkey };
+	});
+
+/**
+ * PostUriSchema
+ * - a parsed AT-URI of a post
+ * - collection app.bsky.feed.post, with a TID record key
+ */
+export const PostUriSchema = z.object({
+	authority: DidSchema,
+	collection: z.literal(POST_COLLECTION),
+	rkey: RkeySchema,
+});
+
+/**
+ * LikeRecordSchema
+ * - an app.bsky.feed.like record, or any record with the same strong
+ *   reference subject, such as app.bsky.feed.repost
+ * - subject.uri is parsed as an AT-URI
+ */
+export const LikeRecordSchema = z.object({
+	subject: z.object({
+		uri: AtUriSchema,
+		cid: z.string().min(1),
+	}),
+	createdAt: z.string(),
+});
+
+/**
+ * TriggerActionSchema
+ * - post: the record's subject is a post by the labeler,
+ *   and the post decides which label is applied or removed
+ * - grant: the record's subject is the labeler account itself,
+ *   and grants the given label to users without one
+ */
+export const TriggerActionSchema = z.discriminatedUnion('type', [
+	z.object({ type: z.literal('post') }).strict(),
+	z.object({
+		type: z.literal('grant'),
+		identifier: LabelIdentifierSchema,
+	}).strict(),
+]);
+
+/**
+ * TriggerSchema
+ * - maps a record collection to the action its records trigger
+ */
+export const TriggerSchema = z.object({
+	collection: NsidSchema,
+	action: TriggerActionSchema,
+}).strict();
+
+/**
+ * RuleMatchSchema
+ * - selects the triggers a rule applies to
+ * - kind: label-post, removal-post or grant
+ * - omitted fields match any trigger
+ */
+export const RuleMatchSchema = z.object({
+	kind: z.enum(['label-post', 'removal-post', 'grant']).optional(),
+	collection: NsidSchema.optional(),
+	rkey: RkeySchema.optional(),
+	label: LabelIdentifierSchema.optional(),
+}).strict();
+
+/**
+ * RuleConditionSchema
+ * - none: only if the user has no active label (in the category, if given,
+ *   or with sameCategory, in the registered category of the rule's label)
+ * - current: only if the given label is active for the user
+ *   (or any label in the category, or any label at all)
+ * - not-current: only if the given label is not active for the user
+ */
+export const RuleConditionSchema = z.discriminatedUnion('if', [
+	z.object({
+		if: z.literal('none'),
+		category: LabelCategorySchema.optional(),
+		sameCategory: z.boolean().optional(),
+	}).strict(),
+	z.object({
+		if: z.literal('current'),
+		label: LabelIdentifierSchema.optional(),
+		category: LabelCategorySchema.optional(),
+	}).strict(),
+	z.object({
+		if: z.literal('not-current'),
+		label: LabelIdentifierSchema,
+	}).strict(),
+]).refine(
+	(condition) =>
+		!(condition.if === 'none' && condition.sameCategory && condition.category),
+	{ message: 'A condition cannot name a category and use sameCategory' },
+);
+
+/**
+ * RuleActionSchema
+ * - apply: apply the label, leaving other labels untouched
+ * - negate: negate the label, or every active label in the category,
+ *   or every active label if neither is given
+ * - toggle: negate the label if active, apply it otherwise
+ * - replace: negate other labels in the same category, then apply the label
+ * - ignore: take no action
+ */
+export const RuleActionSchema = z.enum([
+	'apply',
+	'negate',
+	'toggle',
+	'replace',
+	'ignore',
+]);
+
+/**
+ * RuleSchema
+ * - a named rule mapping matching triggers to an action
+ * - all conditions must hold for the rule to fire
+ * - label defaults to the label the trigger points at
+ * - category scopes a negate action without a label
+ */
+export const RuleSchema = z.object({
+	name: z.string().min(1),
+	match: RuleMatchSchema.default({}),
+	conditions: z.array(RuleConditionSchema).default([]),
+	action: RuleActionSchema,
+	label: LabelIdentifierSchema.optional(),
+	category: LabelCategorySchema.optional(),
+}).strict();
+
+/**
+ * RulesSchema
+ * - ordered list of rules, the first matching rule wins
+ */
+export const RulesSchema = z.array(RuleSchema).min(1);
+
+// Backoff settings shared by all reconnect strategies
+const BackoffShape = {
+	baseDelay: z.number().int().positive(),
+	maxDelay: z.number().int().positive(),
+	immediateFirstRetry: z.boolean(),
+};
+
+/**
+ * ReconnectPolicySchema
+ * - how the Jetstream connection is retried after it fails, in milliseconds
+ * - exponential: exponential backoff with full jitter, capped at maxDelay
+ * - circuit-breaker: exponential backoff until failureThreshold attempts
+ *   failed, then one probe every openDuration
+ * - immediateFirstRetry retries the first failure without delay
+ */
+export const ReconnectPolicySchema = z.discriminatedUnion('strategy', [
+	z.object({
+		strategy: z.literal('exponential'),
+		...BackoffShape,
+	}).strict(),
+	z.object({
+		strategy: z.literal('circuit-breaker'),
+		...BackoffShape,
+		failureThreshold: z.number().int().positive(),
+		openDuration: z.number().int().positive(),
+	}).strict(),
+]).refine((policy) => policy.maxDelay >= policy.baseDelay, {
+	message: 'maxDelay must not be less than baseDelay',
+});
+
+/**
+ * EventSourceSchema
+ * - where events come from
+ * - jetstream: the live Jetstream at JETSTREAM_URLS
+ * - file: an NDJSON recording of Jetstream events, replayed at speed times
+ *   the recorded pace (0 for as fast as possible), optionally limited to
+ *   events after fromCursor and up to toCursor (time_us); always runs in
+ *   shadow mode
+ */
+export const EventSourceSchema = z.discriminatedUnion('type', [
+	z.object({ type: z.literal('jetstream') }).strict(),
+	z.object({
+		type: z.literal('file'),
+		path: z.string().min(1),
+		speed: z.number().nonnegative().default(0),
+		fromCursor: z.number().int().nonnegative().optional(),
+		toCursor: z.number().int().nonnegative().optional(),
+	}).strict(),
+]);
+
+/**
+ * EventDidSchema
+ * - DID of the account a Jetstream event comes from, any DID method
+ */
+const EventDidSchema = z.custom<`did:${string}`>(
+	(did) => DidSchema.safeParse(did).success,
+	{ message: 'Invalid DID' },
+);
+
+// Commit fields the Jetstream client requires before it emits a commit
+const RecordedCommitShape = {
+	rev: z.string().min(1),
+	collection: NsidSchema,
+	rkey: z.string().min(1),
+};
+
+/**
+ * RecordedCreateEventSchema
+ * - a recorded Jetstream commit event that created a record
+ * - requires what the live Jetstream client checks before emitting one:
+ *   rev, collection, rkey and the record
+ * - unknown fields are kept, as they are on the wire
+ */
+export const RecordedCreateEventSchema: z.ZodType<
+	CommitCreateEvent<string>,
+	z.ZodTypeDef,
+	unknown
+> = z.object({
+	did: EventDidSchema,
+	time_us: z.number().int().nonnegative(),
+	kind: z.literal('commit'),
+	commit: z.object({
+		operation: z.literal('create'),
+		...RecordedCommitShape,
+		record: z.object({ $type: z.string() }).passthrough(),
+		cid: z.string().min(1),
+	}).passthrough(),
+}).passthrough();
+
+/**
+ * RecordedDeleteEventSchema
+ * - a recorded Jetstream commit event that deleted a record
+ * - requires rev, collection and rkey, like the live Jetstream client
+ * - unknown fields are kept, as they are on the wire
+ */
+export const RecordedDeleteEventSchema: z.ZodType<
+	CommitDeleteEvent<string>,
+	z.ZodTypeDef,
+	unknown
+> = z.object({
+	did: EventDidSchema,
+	time_us: z.number().int().nonnegative(),
+	kind: z.literal('commit'),
+	commit: z.object({
+		operation: z.literal('delete'),
+		...RecordedCommitShape,
+	}).passthrough(),
+}).passthrough();
+
+/**
+ * ConfigSchema
+ * - object with DID, SIGNING_KEY, and other configuration fields
+ * - all fields are required
+ * - strict object (no additional properties allowed)
+ */
+export const ConfigSchema = z.object({
+	DID: LabelerDidSchema,
+	SIGNING_KEY: SigningKeySchema,
+	JETSTREAM_URLS: z.array(z.string().url()).min(1),
+	JETSTREAM_FAILOVER_THRESHOLD: z.number().int().positive(),
+	EVENT_SOURCE: EventSourceSchema,
+	TRIGGERS: z.array(TriggerSchema).min(1).refine(
+		(triggers) =>
+			new Set(triggers.map((trigger) => trigger.collection)).size ===
+				triggers.length,
+		{ message: 'Each collection may only have one trigger' },
+	),
+	CURSOR: z.number().nonnegative().default(0),
+	MAX_REPLAY_WINDOW: z.number().int().nonnegative(),
+	CURSOR_INTERVAL: z.number().int().positive(),
+	STALL_TIMEOUT: z.number().int().nonnegative(),
+	RECONNECT_POLICY: ReconnectPolicySchema,
+	SHUTDOWN_TIMEOUT: z.number().int().positive(),
+	QUEUE_CONCURRENCY: z.number().int().positive(),
+	QUEUE_CAPACITY: z.number().int().positive(),
+	DEDUP_PERSIST: z.boolean(),
+	BSKY_HANDLE: z.string().min(1),
+	BSKY_PASSWORD: z.string().min(1),
+	BSKY_URL: z.string().url(),
+	PORT: z.number().int().min(1024),
+	TELEMETRY_PORT: z.number().int().min(1024).or(z.literal(0)),
+	RULES_PATH: z.string(),
+	RECONCILE_ON_STARTUP: z.enum(['off', 'report', 'fix']),
+	METRICS_HOURLY_RETENTION: z.number().int().positive(),
+	SHADOW_MODE: z.boolean(),
+	AUDIT_RETENTION_DAYS: z.number().int().positive(),
 }).strict();
 
 // Type definitions derived from schemas
 export type Rkey = z.infer<typeof RkeySchema>;
 export type Did = z.infer<typeof DidSchema>;
+export type SubjectDid = z.infer<typeof SubjectDidSchema>;
+export type LabelerDid = z.infer<typeof LabelerDidSchema>;
 export type SigningKey = z.infer<typeof SigningKeySchema>;
 export type LabelIdentifier = z.infer<typeof LabelIdentifierSchema>;
 export type LabelCategory = z.infer<typeof LabelCategorySchema>;
+export type LabelLocale = z.infer<typeof LabelLocaleSchema>;
+export type LabelDefinition = z.infer<typeof LabelDefinitionSchema>;
 export type Label = z.infer<typeof LabelSchema>;
+export type RemovalPost = z.infer<typeof RemovalPostSchema>;
+export type RegistryEntry = z.infer<typeof RegistryEntrySchema>;
+export type Nsid = z.infer<typeof NsidSchema>;
+export type Handle = z.infer<typeof HandleSchema>;
+export type AtUri = z.infer<typeof AtUriSchema>;
+export type PostUri = z.infer<typeof PostUriSchema>;
+export type LikeRecord = z.infer<typeof LikeRecordSchema>;
+export type TriggerAction = z.infer<typeof TriggerActionSchema>;
+export type Trigger = z.infer<typeof TriggerSchema>;
+export type RuleMatch = z.infer<typeof RuleMatchSchema>;
+export type RuleCondition = z.infer<typeof RuleConditionSchema>;
+export type RuleAction = z.infer<typeof RuleActionSchema>;
+export type Rule = z.infer<typeof RuleSchema>;
+export type EventSourceConfig = z.infer<typeof EventSourceSchema>;
+export type ReconnectPolicyConfig = z.infer<typeof ReconnectPolicySchema>;
 export type Config = z.infer<typeof ConfigSchema>;
 
-/**
- * CATEGORIES
- * Object with Category keys and values
- *
- * See labels.ts for the source of label categories.
- */
-export const CATEGORIES: Record<LabelCategory, LabelCategory> = Object
-	.fromEntries(
-		LabelCategorySchema.options.map((
-			category: LabelCategory,
-		) => [category, category]),
-	) as Record<LabelCategory, LabelCategory>;
-
-// Validate that all labels in LABELS conform to the schema
-LABELS.forEach((label: Label) => {
+// Validate that all seed labels and removal posts conform to the schema
+LABELS.forEach((label) => {
 	LabelSchema.parse(label);
 });
+REMOVAL_POSTS.forEach((post) => {
+	RemovalPostSchema.parse(post);
+});
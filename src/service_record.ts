@@ -0,0 +1,273 @@
+/**
+ * Labeler service declaration
+ * Builds the app.bsky.labeler.service record from the label definitions in
+ * the registry, diffs it against the published record, and publishes it.
+ *
+ * Building and diffing are pure; publishing goes through an AtpAgent, so
+ * it can be exercised against any PDS, including a local mock.
+ */
+import { AtpAgent } from 'atproto';
+import * as log from '@std/log';
+import {
+	Label,
+	LabelDefinition,
+	LabelIdentifier,
+	LabelIdentifierSchema,
+	LabelValueDefinitionSchema,
+} from './schemas.ts';
+import { AtpError } from './errors.ts';
+
+/** Collection of the labeler service declaration record */
+export const SERVICE_COLLECTION = 'app.bsky.labeler.service';
+
+/**
+ * A label value definition as published in the service declaration.
+ */
+export type LabelValueDefinition =
+	& { identifier: LabelIdentifier }
+	& LabelDefinition;
+
+/**
+ * The app.bsky.labeler.service record.
+ * Unknown fields of an existing record are preserved when publishing.
+ */
+export interface ServiceRecord {
+	$type: typeof SERVICE_COLLECTION;
+	policies: {
+		labelValues: LabelIdentifier[];
+		labelValueDefinitions: LabelValueDefinition[];
+	};
+	createdAt: string;
+	[key: string]: unknown;
+}
+
+/**
+ * Outcome of publishing the service declaration.
+ */
+export interface PublishResult {
+	/** Human-readable changes between the published and the new record */
+	changes: string[];
+	/** Whether the record was written */
+	published: boolean;
+	/** The record that was, or would have been, written */
+	record: ServiceRecord;
+}
+
+/**
+ * Builds the service declaration from label definitions.
+ * Each identifier appears once; the first definition found for it is used.
+ *
+ * @param labels - The labels to declare
+ * @param createdAt - Creation time of the record
+ * @returns The service record
+ */
+export function buildServiceRecord(
+	labels: readonly Label[],
+	createdAt: string = new Date().toISOString(),
+): ServiceRecord {
+	const labelValues: LabelIdentifier[] = [];
+	const definitions = new Map<LabelIdentifier, LabelValueDefinition>();
+
+	for (const label of labels) {
+		if (!labelValues.includes(label.identifier)) {
+			labelValues.push(label.identifier);
+		}
+		if (label.definition && !definitions.has(label.identifier)) {
+			definitions.set(label.identifier, {
+				identifier: label.identifier,
+				...label.definition,
+			});
+		}
+	}
+
+	return {
+		$type: SERVICE_COLLECTION,
+		policies: {
+			labelValues,
+			labelValueDefinitions: labelValues
+				.filter((identifier) => definitions.has(identifier))
+				.map((identifier) => definitions.get(identifier)!),
+		},
+		createdAt,
+	};
+}
+
+/**
+ * Validates the label values and definitions of a service declaration
+ * against the lexicon, so an invalid record is never published.
+ *
+ * @param record - The record to publish
+ * @throws {AtpError} If a label value or definition is invalid
+ */
+export function validateServiceRecord(record: ServiceRecord): void {
+	const problems = [
+		...record.policies.labelValues
+			.filter((identifier) =>
+				!LabelIdentifierSchema.safeParse(identifier).success
+			)
+			.map((identifier) => `invalid label value ${JSON.stringify(identifier)}`),
+		...record.policies.labelValueDefinitions.flatMap((definition) => {
+			const result = LabelValueDefinitionSchema.safeParse(definition);
+			return result.success
+				? []
+				: result.error.errors.map((e) =>
+					`invalid definition ${JSON.stringify(definition.identifier)}: ${
+						e.path.join('.')
+					} ${e.message}`
+				);
+		}),
+	];
+
+	if (problems.length > 0) {
+		throw new AtpError(
+			`Refusing to publish ${SERVICE_COLLECTION}: ${problems.join('; ')}`,
+		);
+	}
+}
+
+/**
+ * Lists the differences between two service declarations.
+ *
+ * @param current - The published record, or null if none exists
+ * @param next - The record to publish
+ * @returns One line per change, empty if the policies are identical
+ */
+export function diffServiceRecords(
+	current: ServiceRecord | null,
+	next: ServiceRecord,
+): string[] {
+	if (!current) {
+		return [
+			`+ create ${SERVICE_COLLECTION} with labels: ${
+				next.policies.labelValues.join(', ')
+			}`,
+		];
+	}
+
+	const changes: string[] = [];
+	const currentValues = current.policies?.labelValues ?? [];
+	const currentDefinitions = new Map(
+		(current.policies?.labelValueDefinitions ?? []).map((
+			definition,
+		) => [definition.identifier, definition]),
+	);
+	const nextDefinitions = new Map(
+		next.policies.labelValueDefinitions.map((
+			definition,
+		) => [definition.identifier, definition]),
+	);
+
+	for (const identifier of next.policies.labelValues) {
+		if (!currentValues.includes(identifier)) {
+			changes.push(`+ label ${identifier}`);
+		}
+	}
+	for (const identifier of currentValues) {
+		if (!next.policies.labelValues.includes(identifier)) {
+			changes.push(`- label ${identifier}`);
+		}
+	}
+
+	for (const [identifier, definition] of nextDefinitions) {
+		const previous = currentDefinitions.get(identifier);
+		if (!previous) {
+			changes.push(`+ definition ${identifier}`);
+			continue;
+		}
+		for (const key of Object.keys(definition) as (keyof typeof definition)[]) {
+			const before = JSON.stringify(previous[key]);
+			const after = JSON.stringify(definition[key]);
+			if (before !== after) {
+				changes.push(`~ ${identifier}.${key}: ${before} -> ${after}`);
+			}
+		}
+	}
+	for (const identifier of currentDefinitions.keys()) {
+		if (!nextDefinitions.has(identifier)) {
+			changes.push(`- definition ${identifier}`);
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Publishes the service declaration for the given labels.
+ * Fetches the current record, validates and diffs the new one, and writes
+ * it unless dryRun is set or nothing changed.
+ *
+ * @param agent - An authenticated AtpAgent for the labeler account
+ * @param did - The DID of the labeler account
+ * @param labels - The labels to declare
+ * @param options - Set dryRun to only report changes
+ * @returns The changes and whether the record was written
+ * @throws {AtpError} If the record is invalid, or reading or writing it fails
+ */
+export async function publishServiceRecord(
+	agent: AtpAgent,
+	did: string,
+	labels: readonly Label[],
+	options: { dryRun?: boolean } = {},
+): Promise<PublishResult> {
+	const logger = log.getLogger();
+
+	let current: ServiceRecord | null = null;
+	let currentCid: string | undefined;
+	try {
+		const response = await agent.com.atproto.repo.getRecord({
+			repo: did,
+			collection: SERVICE_COLLECTION,
+			rkey: 'self',
+		});
+		current = response.data.value as ServiceRecord;
+		currentCid = response.data.cid;
+	} catch (error) {
+		if ((error as { error?: string }).error !== 'RecordNotFound') {
+			throw new AtpError(
+				`Failed to fetch ${SERVICE_COLLECTION}: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+		}
+	}
+
+	const built = buildServiceRecord(labels, current?.createdAt);
+	const record: ServiceRecord = current
+		? { ...current, policies: built.policies }
+		: built;
+	validateServiceRecord(record);
+	const changes = diffServiceRecords(current, record);
+
+	const undefinedLabels = record.policies.labelValues.filter((identifier) =>
+		!record.policies.labelValueDefinitions.some((definition) =>
+			definition.identifier === identifier
+		)
+	);
+	if (undefinedLabels.length > 0) {
+		logger.warn(`Labels without a definition: ${undefinedLabels.join(', ')}`);
+	}
+
+	if (options.dryRun || changes.length === 0) {
+		return { changes, published: false, record };
+	}
+
+	try {
+		await agent.com.atproto.repo.putRecord({
+			repo: did,
+			collection: SERVICE_COLLECTION,
+			rkey: 'self',
+			record,
+			swapRecord: currentCid,
+		});
+		logger.info(
+			`Published ${SERVICE_COLLECTION} with ${record.policies.labelValues.length} labels`,
+		);
+		return { changes, published: true, record };
+	} catch (error) {
+		throw new AtpError(
+			`Failed to publish ${SERVICE_COLLECTION}: ${
+				error instanceof Error ? error.message : String(error)
+			}`,
+		);
+	}
+}
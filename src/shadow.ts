@@ -0,0 +1,226 @@
+/**
+ * Shadow mode journal
+ * Records what the labeler would have done, instead of emitting labels,
+ * so new rules or configuration can be tried against real traffic.
+ *
+ * - Intended label operations are journaled per subject and overlaid on
+ *   the label database, so later decisions see earlier shadow labels
+ * - Every decision is journaled with the rule, action and outcome
+ * - The report summarizes the decisions made since the journal was cleared
+ * - Everything is stored under the ['shadow'] prefix in Deno KV and never
+ *   touches the label database, metrics or production trigger records
+ */
+import * as log from '@std/log';
+import { KvError } from './errors.ts';
+import { LabelOperation } from './rules_engine.ts';
+import { LabelRow } from './reconcile.ts';
+
+/** KV prefix of all shadow mode state */
+export const SHADOW_PREFIX = ['shadow'] as const;
+
+/** Outcome of a handled trigger or trigger deletion */
+export type TriggerOutcome =
+	| 'applied'
+	| 'negated'
+	| 'no-op'
+	| 'self-blocked'
+	| 'unmapped';
+
+/**
+ * A decision the labeler made in shadow mode.
+ */
+export interface ShadowDecision {
+	/** When the decision was made, as an ISO timestamp */
+	at: string;
+	subject: string;
+	collection: string;
+	/** A created trigger record, or a deleted one */
+	event: 'trigger' | 'deletion';
+	/** The rule that fired, or null if none did or no rule was evaluated */
+	rule: string | null;
+	outcome: TriggerOutcome;
+	/** The label operations that would have been emitted, in order */
+	operations: LabelOperation[];
+}
+
+/**
+ * A summary of the decisions made in shadow mode.
+ */
+export interface ShadowReport {
+	/** Time of the first and last decision, or null if there were none */
+	from: string | null;
+	to: string | null;
+	decisions: number;
+	/** Number of distinct subjects with at least one label operation */
+	subjects: number;
+	outcomes: Partial<Record<TriggerOutcome, number>>;
+	/** Decisions per rule name; "(none)" when no rule fired */
+	rules: Record<string, number>;
+	/** Label operations that would have been emitted, per label */
+	labels: Record<string, { applied: number; negated: number }>;
+}
+
+/**
+ * Journals shadow mode decisions and label operations in Deno KV.
+ */
+export class ShadowJournal {
+	private readonly logger = log.getLogger();
+	private sequence = 0;
+
+	constructor(private readonly kv: Deno.Kv) {}
+
+	/**
+	 * Records label operations that would have been emitted for a subject
+	 */
+	async recordLabels(
+		subject: string,
+		operations: LabelOperation[],
+	): Promise<void> {
+		const now = Date.now();
+		const atomic = this.kv.atomic();
+		for (const operation of operations) {
+			atomic.set(
+				[...SHADOW_PREFIX, 'labels', subject, now, this.sequence++],
+				operation,
+			);
+		}
+		await this.commit(atomic, `label operations for ${subject}`);
+	}
+
+	/**
+	 * Records a decision
+	 */
+	async recordDecision(decision: ShadowDecision): Promise<void> {
+		const atomic = this.kv.atomic().set(
+			[...SHADOW_PREFIX, 'decisions', Date.now(), this.sequence++],
+			decision,
+		);
+		await this.commit(atomic, `decision for ${decision.subject}`);
+	}
+
+	/**
+	 * Appends the shadow label operations of a subject to its rows from the
+	 * label database, so folding them yields the labels the subject would
+	 * hold had shadow mode emitted them
+	 *
+	 * @param subject - The subject DID
+	 * @param rows - The subject's label rows, oldest first
+	 */
+	async overlay(subject: string, rows: LabelRow[]): Promise<LabelRow[]> {
+		const overlaid = [...rows];
+		try {
+			for await (
+				const entry of this.kv.list<LabelOperation>({
+					prefix: [...SHADOW_PREFIX, 'labels', subject],
+				})
+			) {
+				overlaid.push({
+					uri: subject,
+					val: entry.value.val,
+					neg: entry.value.neg,
+				});
+			}
+			return overlaid;
+		} catch (error) {
+			throw this.error(`Failed to read shadow labels for ${subject}`, error);
+		}
+	}
+
+	/**
+	 * Summarizes the journaled decisions
+	 */
+	async report(): Promise<ShadowReport> {
+		try {
+			const decisions: ShadowDecision[] = [];
+			for await (
+				const entry of this.kv.list<ShadowDecision>({
+					prefix: [...SHADOW_PREFIX, 'decisions'],
+				})
+			) {
+				decisions.push(entry.value);
+			}
+			return summarizeDecisions(decisions);
+		} catch (error) {
+			throw this.error('Failed to read shadow decisions', error);
+		}
+	}
+
+	/**
+	 * Deletes all shadow mode state
+	 *
+	 * @returns The number of deleted entries
+	 */
+	async clear(): Promise<number> {
+		let deleted = 0;
+		try {
+			for await (const entry of this.kv.list({ prefix: [...SHADOW_PREFIX] })) {
+				await this.kv.delete(entry.key);
+				deleted++;
+			}
+			this.logger.info(`Cleared ${deleted} shadow mode entries`);
+			return deleted;
+		} catch (error) {
+			throw this.error('Failed to clear shadow mode state', error);
+		}
+	}
+
+	private async commit(
+		atomic: Deno.AtomicOperation,
+		what: string,
+	): Promise<void> {
+		try {
+			const result = await atomic.commit();
+			if (!result.ok) {
+				throw new Error('atomic commit failed');
+			}
+		} catch (error) {
+			throw this.error(`Failed to journal ${what}`, error);
+		}
+	}
+
+	private error(message: string, error: unknown): KvError {
+		const msg = `${message}: ${
+			error instanceof Error ? error.message : String(error)
+		}`;
+		this.logger.error(msg);
+		return new KvError(msg);
+	}
+}
+
+/**
+ * Summarizes shadow decisions by outcome, rule and label
+ *
+ * @param decisions - The decisions, oldest first
+ */
+export function summarizeDecisions(
+	decisions: readonly ShadowDecision[],
+): ShadowReport {
+	const report: ShadowReport = {
+		from: decisions[0]?.at ?? null,
+		to: decisions[decisions.length - 1]?.at ?? null,
+		decisions: decisions.length,
+		subjects: 0,
+		outcomes: {},
+		rules: {},
+		labels: {},
+	};
+	const subjects = new Set<string>();
+
+	for (const decision of decisions) {
+		report.outcomes[decision.outcome] =
+			(report.outcomes[decision.outcome] ?? 0) + 1;
+		const rule = decision.rule ?? '(none)';
+		report.rules[rule] = (report.rules[rule] ?? 0) + 1;
+
+		for (const operation of decision.operations) {
+			subjects.add(decision.subject);
+			const counts = report.labels[operation.val] ??
+				{ applied: 0, negated: 0 };
+			counts[operation.neg ? 'negated' : 'applied']++;
+			report.labels[operation.val] = counts;
+		}
+	}
+
+	report.subjects = subjects.size;
+	return report;
+}
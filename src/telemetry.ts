@@ -0,0 +1,347 @@
+/**
+ * Operational telemetry
+ * Collects pipeline metrics and serves them in the Prometheus text format
+ * on an HTTP listener separate from the LabelerServer, together with the
+ * /healthz and /readyz probes.
+ *
+ * Key Features:
+ * - Counters, gauges and histograms with labels, rendered without
+ *   external dependencies
+ * - Gauges can be computed at scrape time, e.g. cursor lag and label totals
+ * - Rendering is pure, so output can be checked with a local scrape:
+ *   curl http://localhost:9464/metrics (see TELEMETRY_PORT)
+ */
+import * as log from '@std/log';
+import { ServerError } from './errors.ts';
+import { HealthMonitor } from './health.ts';
+
+/** Label names and values of a single series */
+export type MetricLabels = Record<string, string>;
+
+/** Default histogram buckets for processing latency, in seconds */
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+/**
+ * A metric that can render itself in the Prometheus text format.
+ */
+interface Metric {
+	readonly name: string;
+	render(): Promise<string[]>;
+}
+
+/**
+ * A monotonically increasing counter.
+ */
+export class Counter implements Metric {
+	private readonly series = new Map<string, number>();
+
+	constructor(
+		readonly name: string,
+		private readonly help: string,
+	) {}
+
+	/**
+	 * Increments the series with the given labels
+	 */
+	inc(labels: MetricLabels = {}, value = 1): void {
+		const key = formatLabels(labels);
+		this.series.set(key, (this.series.get(key) ?? 0) + value);
+	}
+
+	render(): Promise<string[]> {
+		return Promise.resolve([
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} counter`,
+			...[...this.series].map(([key, value]) => `${this.name}${key} ${value}`),
+		]);
+	}
+}
+
+/**
+ * A gauge, either set directly or computed at scrape time by a collector.
+ */
+export class Gauge implements Metric {
+	private readonly series = new Map<string, number>();
+	private collector:
+		| (() => Promise<[MetricLabels, number][]> | [MetricLabels, number][])
+		| null = null;
+
+	constructor(
+		readonly name: string,
+		private readonly help: string,
+	) {}
+
+	/**
+	 * Sets the series with the given labels
+	 */
+	set(labels: MetricLabels, value: number): void {
+		this.series.set(formatLabels(labels), value);
+	}
+
+	/**
+	 * Computes the series at scrape time instead of storing them
+	 */
+	collect(
+		collector: () =>
+			| Promise<[MetricLabels, number][]>
+			| [MetricLabels, number][],
+	): void {
+		this.collector = collector;
+	}
+
+	async render(): Promise<string[]> {
+		const series = this.collector
+			? (await this.collector()).map((
+				[labels, value],
+			) => [formatLabels(labels), value] as const)
+			: [...this.series];
+		return [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} gauge`,
+			...series.map(([key, value]) => `${this.name}${key} ${value}`),
+		];
+	}
+}
+
+/**
+ * A histogram of observed values with cumulative buckets.
+ */
+export class Histogram implements Metric {
+	private readonly series = new Map<
+		string,
+		{ labels: MetricLabels; counts: number[]; sum: number; count: number }
+	>();
+
+	constructor(
+		readonly name: string,
+		private readonly help: string,
+		private readonly buckets: readonly number[] = LATENCY_BUCKETS,
+	) {}
+
+	/**
+	 * Records a value in the series with the given labels
+	 */
+	observe(labels: MetricLabels, value: number): void {
+		const key = formatLabels(labels);
+		const series = this.series.get(key) ??
+			{ labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+		this.buckets.forEach((bound, i) => {
+			if (value <= bound) series.counts[i]++;
+		});
+		series.sum += value;
+		series.count++;
+		this.series.set(key, series);
+	}
+
+	render(): Promise<string[]> {
+		const lines = [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} histogram`,
+		];
+		for (const [key, { labels, counts, sum, count }] of this.series) {
+			this.buckets.forEach((bound, i) => {
+				lines.push(
+					`${this.name}_bucket${
+						formatLabels({ ...labels, le: String(bound) })
+					} ${counts[i]}`,
+				);
+			});
+			lines.push(
+				`${this.name}_bucket${
+					formatLabels({ ...labels, le: '+Inf' })
+				} ${count}`,
+				`${this.name}_sum${key} ${sum}`,
+				`${this.name}_count${key} ${count}`,
+			);
+		}
+		return Promise.resolve(lines);
+	}
+}
+
+/**
+ * The pipeline metrics exposed by the labeler.
+ */
+export class Telemetry {
+	/** Events received from Jetstream, by collection and operation */
+	readonly eventsReceived = new Counter(
+		'battlemaster_events_received_total',
+		'Events received from Jetstream',
+	);
+	/** Events skipped because they were already processed */
+	readonly eventsDeduplicated = new Counter(
+		'battlemaster_events_deduplicated_total',
+		'Events skipped by the event cache as already processed',
+	);
+	/** Events skipped because their DID method is unsupported, by method */
+	readonly eventsUnsupported = new Counter(
+		'battlemaster_events_unsupported_did_total',
+		'Events skipped because the account DID is not a supported did:plc or did:web',
+	);
+	/** Outcomes of handled triggers, by collection and outcome */
+	readonly triggerOutcomes = new Counter(
+		'battlemaster_trigger_outcomes_total',
+		'Outcomes of handled triggers: applied, negated, no-op, self-blocked or unmapped',
+	);
+	/** Time spent processing an event, by collection */
+	readonly processingSeconds = new Histogram(
+		'battlemaster_event_processing_seconds',
+		'Time spent processing an event',
+	);
+	/** Reconnection attempts scheduled by the connection handler */
+	readonly reconnectAttempts = new Counter(
+		'battlemaster_jetstream_reconnect_attempts_total',
+		'Jetstream reconnection attempts',
+	);
+	/** Age of the newest fully processed event */
+	readonly cursorLag = new Gauge(
+		'battlemaster_cursor_lag_seconds',
+		'Age of the checkpointed cursor',
+	);
+	/** Which Jetstream endpoint is active, by url */
+	readonly endpointActive = new Gauge(
+		'battlemaster_jetstream_endpoint_active',
+		'Whether the Jetstream endpoint is the active one',
+	);
+	/** Whether each Jetstream endpoint is considered healthy, by url */
+	readonly endpointHealthy = new Gauge(
+		'battlemaster_jetstream_endpoint_healthy',
+		'Whether the Jetstream endpoint is considered healthy',
+	);
+	/** Users holding each label, from MetricsTracker */
+	readonly labelTotals = new Gauge(
+		'battlemaster_label_holders',
+		'Users holding each label',
+	);
+
+	private readonly metrics: Metric[] = [
+		this.eventsReceived,
+		this.eventsDeduplicated,
+		this.eventsUnsupported,
+		this.triggerOutcomes,
+		this.processingSeconds,
+		this.reconnectAttempts,
+		this.cursorLag,
+		this.endpointActive,
+		this.endpointHealthy,
+		this.labelTotals,
+	];
+
+	/**
+	 * Renders all metrics in the Prometheus text exposition format
+	 */
+	async render(): Promise<string> {
+		const lines: string[] = [];
+		for (const metric of this.metrics) {
+			lines.push(...await metric.render());
+		}
+		return lines.join('\n') + '\n';
+	}
+}
+
+/**
+ * Serves telemetry and health probes over HTTP on its own port.
+ * - GET /metrics: Prometheus text format
+ * - GET /healthz, /readyz: JSON health report, 503 when degraded
+ */
+export class TelemetryServer {
+	private readonly logger = log.getLogger();
+	private server: Deno.HttpServer<Deno.NetAddr> | null = null;
+
+	/**
+	 * @param telemetry - The telemetry to serve on /metrics
+	 * @param health - The HealthMonitor to serve on /healthz and /readyz
+	 * @param port - The port to listen on
+	 */
+	constructor(
+		private readonly telemetry: Telemetry,
+		private readonly health: HealthMonitor,
+		private readonly port: number,
+	) {}
+
+	/**
+	 * Starts listening
+	 *
+	 * @throws {ServerError} If the listener cannot be started
+	 */
+	start(): void {
+		try {
+			this.server = Deno.serve(
+				{
+					port: this.port,
+					onListen: ({ port }) =>
+						this.logger.info(`Telemetry listening on port ${port}`),
+				},
+				(request) => this.handle(request),
+			);
+		} catch (error) {
+			const msg = `Failed to start telemetry server: ${
+				error instanceof Error ? error.message : String(error)
+			}`;
+			this.logger.error(msg);
+			throw new ServerError(msg);
+		}
+	}
+
+	/**
+	 * The port the server is listening on, or null if it is not running.
+	 * Differs from the configured port when that is 0.
+	 */
+	get listeningPort(): number | null {
+		return this.server?.addr.port ?? null;
+	}
+
+	/**
+	 * Stops listening
+	 */
+	async shutdown(): Promise<void> {
+		await this.server?.shutdown();
+		this.server = null;
+	}
+
+	private async handle(request: Request): Promise<Response> {
+		const { pathname } = new URL(request.url);
+		if (request.method !== 'GET') {
+			return new Response('Not Found\n', { status: 404 });
+		}
+
+		try {
+			switch (pathname) {
+				case '/metrics':
+					return new Response(await this.telemetry.render(), {
+						headers: { 'content-type': 'text/plain; version=0.0.4' },
+					});
+				case '/healthz':
+				case '/readyz': {
+					const report = await this.health.report(
+						pathname === '/healthz' ? 'liveness' : 'readiness',
+					);
+					return Response.json(report, {
+						status: report.status === 'ok' ? 200 : 503,
+					});
+				}
+				default:
+					return new Response('Not Found\n', { status: 404 });
+			}
+		} catch (error) {
+			this.logger.error(
+				`Failed to serve ${pathname}: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+			return new Response('Internal Server Error\n', { status: 500 });
+		}
+	}
+}
+
+/**
+ * Formats labels as {name="value",...}, escaping values as Prometheus
+ * requires. Returns an empty string for no labels.
+ */
+function formatLabels(labels: MetricLabels): string {
+	const pairs = Object.entries(labels).map(([name, value]) =>
+		`${name}="${
+			value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+		}"`
+	);
+	return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
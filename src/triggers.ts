@@ -0,0 +1,120 @@
+/**
+ * Trigger tracking system
+ * Records which trigger record granted which label, so deleting the record
+ * (an unlike, un-repost or unfollow) can undo it.
+ *
+ * The keys of all records are also kept in memory, so deletions of records
+ * that never granted a label can be discarded without reading the store.
+ */
+import * as log from '@std/log';
+import { LabelIdentifier, Nsid, Rkey, SubjectDid } from './schemas.ts';
+import { KvError } from './errors.ts';
+
+/**
+ * Manages the mapping of trigger records to the labels they granted.
+ * Uses Deno KV for persistent storage, keyed by repo DID, collection and rkey.
+ */
+export class TriggerTracker {
+	private readonly logger: log.Logger;
+	private readonly known = new Set<string>();
+
+	/**
+	 * @param kv - The KV store holding the records
+	 * @param prefix - The key prefix, so shadow mode can keep its own records
+	 */
+	constructor(
+		private readonly kv: Deno.Kv,
+		private readonly prefix: readonly Deno.KvKeyPart[] = ['triggers'],
+	) {
+		this.logger = log.getLogger();
+	}
+
+	/**
+	 * Loads the keys of the stored records into memory
+	 *
+	 * @returns The number of records
+	 * @throws {KvError} If the records cannot be listed
+	 */
+	async load(): Promise<number> {
+		try {
+			this.known.clear();
+			for await (const entry of this.kv.list({ prefix: [...this.prefix] })) {
+				const [did, collection, rkey] = entry.key.slice(this.prefix.length);
+				this.known.add(
+					this.knownKey(String(did), String(collection), String(rkey)),
+				);
+			}
+			this.logger.info(`Loaded ${this.known.size} trigger records`);
+			return this.known.size;
+		} catch (error) {
+			const msg = `Failed to load trigger records: ${
+				error instanceof Error ? error.message : String(error)
+			}`;
+			this.logger.error(msg);
+			throw new KvError(msg);
+		}
+	}
+
+	/**
+	 * Whether a record is stored for the trigger record identified by did,
+	 * collection and rkey, as of the last load and the changes made since
+	 */
+	has(did: string, collection: string, rkey: string): boolean {
+		return this.known.has(this.knownKey(did, collection, rkey));
+	}
+
+	/**
+	 * Records that the trigger record identified by did, collection and rkey
+	 * granted a label
+	 */
+	async record(
+		did: SubjectDid,
+		collection: Nsid,
+		rkey: Rkey,
+		identifier: LabelIdentifier,
+	): Promise<void> {
+		try {
+			await this.kv.set([...this.prefix, did, collection, rkey], identifier);
+			this.known.add(this.knownKey(did, collection, rkey));
+			this.logger.debug(
+				`Recorded ${collection} ${did}/${rkey} for label ${identifier}`,
+			);
+		} catch (error) {
+			const msg = `Failed to record ${collection} ${did}/${rkey}: ${
+				error instanceof Error ? error.message : String(error)
+			}`;
+			this.logger.error(msg);
+			throw new KvError(msg);
+		}
+	}
+
+	/**
+	 * Removes the record for a trigger and returns the label it granted, if any
+	 */
+	async take(
+		did: SubjectDid,
+		collection: Nsid,
+		rkey: Rkey,
+	): Promise<LabelIdentifier | null> {
+		const key = [...this.prefix, did, collection, rkey];
+		try {
+			const result = await this.kv.get<LabelIdentifier>(key);
+			this.known.delete(this.knownKey(did, collection, rkey));
+			if (result.value === null) {
+				return null;
+			}
+			await this.kv.delete(key);
+			return result.value;
+		} catch (error) {
+			const msg = `Failed to take ${collection} ${did}/${rkey}: ${
+				error instanceof Error ? error.message : String(error)
+			}`;
+			this.logger.error(msg);
+			throw new KvError(msg);
+		}
+	}
+
+	private knownKey(did: string, collection: string, rkey: string): string {
+		return `${did}/${collection}/${rkey}`;
+	}
+}
@@ -0,0 +1,88 @@
+/**
+ * Stall watchdog
+ * Detects when a connection stays open but stops delivering events.
+ *
+ * The watchdog only tracks time; the caller decides what a stall means.
+ * Time is read from an injectable clock, so the watchdog can be driven by
+ * a fake clock instead of real timers.
+ */
+import { Clock, systemClock } from './clock.ts';
+
+/** Longest time between two idle checks (10 seconds) */
+const MAX_CHECK_INTERVAL = 10000;
+
+/**
+ * Calls onStall when no activity was recorded for the timeout.
+ * After firing, the idle time starts over, so a stall that persists
+ * fires again only after another full timeout.
+ */
+export class StallWatchdog {
+	private lastActivity: number;
+	private timer: number | null = null;
+
+	/**
+	 * @param timeout - Idle time after which the connection counts as stalled, in milliseconds
+	 * @param onStall - Called with the idle time when a stall is detected
+	 * @param clock - The clock to read time and schedule checks with
+	 */
+	constructor(
+		private readonly timeout: number,
+		private readonly onStall: (idle: number) => void,
+		private readonly clock: Clock = systemClock,
+	) {
+		this.lastActivity = clock.now();
+	}
+
+	/**
+	 * Milliseconds since the last recorded activity
+	 */
+	get idle(): number {
+		return this.clock.now() - this.lastActivity;
+	}
+
+	/**
+	 * Starts checking periodically, counting idle time from now
+	 */
+	start(): void {
+		if (this.timer !== null) {
+			return;
+		}
+		this.lastActivity = this.clock.now();
+		this.timer = this.clock.setInterval(
+			() => this.check(),
+			Math.min(this.timeout / 4, MAX_CHECK_INTERVAL),
+		);
+	}
+
+	/**
+	 * Stops checking
+	 */
+	stop(): void {
+		if (this.timer !== null) {
+			this.clock.clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Records activity, resetting the idle time
+	 */
+	touch(): void {
+		this.lastActivity = this.clock.now();
+	}
+
+	/**
+	 * Fires onStall if the idle time reached the timeout
+	 *
+	 * @returns true if a stall was detected
+	 */
+	check(): boolean {
+		const idle = this.idle;
+		if (idle < this.timeout) {
+			return false;
+		}
+		this.lastActivity = this.clock.now();
+		this.onStall(idle);
+		return true;
+	}
+}
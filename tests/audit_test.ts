@@ -0,0 +1,198 @@
+import { assertEquals } from '@std/assert';
+import { AuditEntry, AuditLog } from '../src/audit.ts';
+import { FakeClock } from './fake_clock.ts';
+
+const ALICE = 'did:plc:ewvi7nxzyoun6zhxrhs64oiz';
+const BOB = 'did:plc:ar7c4by46qjdydhdevvrndac';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.parse('2024-09-01T12:00:00.000Z');
+
+function decision(
+	subject: string,
+	overrides: Partial<AuditEntry> = {},
+): Omit<AuditEntry, 'at'> {
+	return {
+		subject,
+		actor: 'event',
+		source: {
+			uri: `at://${subject}/app.bsky.feed.like/3l3qo2vuowo2b`,
+			cid: 'bafyreidfayvfuwqa7qlnopdjiqrxzs6blmoeu4rujcjtnci5beludirz2a',
+			timeUs: 1725192000000000,
+			operation: 'create',
+		},
+		rule: 'default-label',
+		outcome: 'applied',
+		previous: [],
+		current: ['warrior'],
+		operations: [{ val: 'warrior', neg: false }],
+		...overrides,
+	};
+}
+
+/** An audit log on an in-memory KV store, with a fake clock at START */
+async function createAuditLog() {
+	const kv = await Deno.openKv(':memory:');
+	const clock = new FakeClock();
+	await clock.tick(START);
+	return { kv, clock, audit: new AuditLog(kv, clock) };
+}
+
+/** The keys under a prefix */
+async function keys(kv: Deno.Kv, prefix: Deno.KvKey): Promise<Deno.KvKey[]> {
+	const found: Deno.KvKey[] = [];
+	for await (const entry of kv.list({ prefix })) {
+		found.push(entry.key);
+	}
+	return found;
+}
+
+/**
+ * Checks that every entry has a time index key and every index key an
+ * entry, and returns the number of entries
+ */
+async function assertIndexed(kv: Deno.Kv): Promise<number> {
+	const entries = (await keys(kv, ['audit', 'subject']))
+		.map(([, , subject, time, sequence]) => [time, subject, sequence]);
+	const index = (await keys(kv, ['audit', 'time']))
+		.map(([, , time, subject, sequence]) => [time, subject, sequence]);
+	const sort = (list: Deno.KvKeyPart[][]) =>
+		list.map((key) => JSON.stringify(key)).sort();
+	assertEquals(sort(entries), sort(index));
+	return entries.length;
+}
+
+Deno.test('audit entries', async (t) => {
+	await t.step('list the entries of one subject in a range', async () => {
+		const { kv, clock, audit } = await createAuditLog();
+		try {
+			await audit.record(decision(ALICE));
+			await clock.tick(1000);
+			await audit.record(decision(BOB));
+			await audit.record(
+				decision(ALICE, {
+					rule: null,
+					outcome: 'no-op',
+					previous: ['warrior'],
+					current: ['warrior'],
+					operations: [],
+				}),
+			);
+			await clock.tick(1000);
+			await audit.record(
+				decision(ALICE, { actor: 'admin', source: undefined }),
+			);
+
+			const entries = await audit.query(
+				ALICE,
+				new Date(START),
+				new Date(START + 2000),
+			);
+			assertEquals(entries.map(({ at, outcome }) => [at, outcome]), [
+				['2024-09-01T12:00:00.000Z', 'applied'],
+				['2024-09-01T12:00:01.000Z', 'no-op'],
+			]);
+			const second = [new Date(START + 1000), new Date(START + 1001)] as const;
+			assertEquals((await audit.query(BOB, ...second)).length, 1);
+			assertEquals(await assertIndexed(kv), 4);
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('export all subjects in time order', async () => {
+		const { kv, clock, audit } = await createAuditLog();
+		try {
+			await audit.record(decision(BOB));
+			await clock.tick(1000);
+			await audit.record(decision(ALICE));
+			await clock.tick(1000);
+			await audit.record(decision(BOB, { outcome: 'self-blocked' }));
+
+			const exported: AuditEntry[] = [];
+			for await (
+				const entry of audit.export(new Date(START), new Date(START + 2000))
+			) {
+				exported.push(entry);
+			}
+
+			assertEquals(exported.map(({ subject }) => subject), [BOB, ALICE]);
+			assertEquals(JSON.parse(JSON.stringify(exported[1])), {
+				at: '2024-09-01T12:00:01.000Z',
+				subject: ALICE,
+				actor: 'event',
+				source: {
+					uri: `at://${ALICE}/app.bsky.feed.like/3l3qo2vuowo2b`,
+					cid: 'bafyreidfayvfuwqa7qlnopdjiqrxzs6blmoeu4rujcjtnci5beludirz2a',
+					timeUs: 1725192000000000,
+					operation: 'create',
+				},
+				rule: 'default-label',
+				outcome: 'applied',
+				previous: [],
+				current: ['warrior'],
+				operations: [{ val: 'warrior', neg: false }],
+			});
+		} finally {
+			kv.close();
+		}
+	});
+});
+
+Deno.test('audit retention', async (t) => {
+	await t.step('prune entries older than the retention period', async () => {
+		const { kv, clock, audit } = await createAuditLog();
+		try {
+			await audit.record(decision(ALICE));
+			await clock.tick(DAY);
+			await audit.record(decision(BOB));
+			await clock.tick(89 * DAY);
+
+			// The first entry is exactly 90 days old, the second one day younger
+			assertEquals(await audit.prune(90), 0);
+			await clock.tick(1);
+			assertEquals(await audit.prune(90), 1);
+			assertEquals(await audit.query(ALICE, new Date(0), new Date()), []);
+			assertEquals(await assertIndexed(kv), 1);
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('delete expired entries in batches', async () => {
+		const { kv, clock, audit } = await createAuditLog();
+		try {
+			for (let i = 0; i < 600; i++) {
+				await audit.record(decision(i % 2 ? ALICE : BOB));
+			}
+			await clock.tick(90 * DAY + 1);
+			await audit.record(decision(ALICE));
+
+			let commits = 0;
+			const counted = new Proxy(kv, {
+				get(target, property) {
+					if (property === 'atomic') {
+						return () => {
+							const op = target.atomic();
+							const commit = op.commit.bind(op);
+							op.commit = () => {
+								commits++;
+								return commit();
+							};
+							return op;
+						};
+					}
+					const value = Reflect.get(target, property);
+					return typeof value === 'function' ? value.bind(target) : value;
+				},
+			});
+
+			assertEquals(await new AuditLog(counted, clock).prune(90), 600);
+			// 250 + 250 + 100 entries, each deleted with its index key
+			assertEquals(commits, 3);
+			assertEquals(await assertIndexed(kv), 1);
+		} finally {
+			kv.close();
+		}
+	});
+});
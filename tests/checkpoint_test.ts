@@ -0,0 +1,172 @@
+import { assertEquals } from '@std/assert';
+import { CursorCheckpointer } from '../src/checkpoint.ts';
+import { FakeClock } from './fake_clock.ts';
+
+/** A checkpointer driven by a fake clock, recording the cursors it saves */
+function createCheckpointer(initialCursor = 0) {
+	const clock = new FakeClock();
+	const saved: number[] = [];
+	const checkpointer = new CursorCheckpointer(
+		initialCursor,
+		1000,
+		500,
+		clock,
+		(cursor) => {
+			saved.push(cursor);
+			return Promise.resolve();
+		},
+	);
+	return { checkpointer, clock, saved };
+}
+
+Deno.test('the checkpoint stays before in-flight events', () => {
+	const { checkpointer } = createCheckpointer(100);
+	assertEquals(checkpointer.checkpoint, 100);
+
+	checkpointer.begin(200);
+	checkpointer.begin(300);
+	checkpointer.complete(300);
+	assertEquals(checkpointer.checkpoint, 199);
+	assertEquals(checkpointer.pending, 1);
+
+	checkpointer.complete(200);
+	assertEquals(checkpointer.checkpoint, 300);
+	assertEquals(checkpointer.pending, 0);
+});
+
+Deno.test('events sharing a time_us are all waited for', () => {
+	const { checkpointer } = createCheckpointer();
+
+	checkpointer.begin(200);
+	checkpointer.begin(200);
+	checkpointer.complete(200);
+	assertEquals(checkpointer.checkpoint, 199);
+
+	checkpointer.complete(200);
+	assertEquals(checkpointer.checkpoint, 200);
+});
+
+Deno.test('skipped events advance the checkpoint past no in-flight event', () => {
+	const { checkpointer } = createCheckpointer();
+
+	checkpointer.skip(100);
+	assertEquals(checkpointer.checkpoint, 100);
+
+	checkpointer.begin(200);
+	checkpointer.skip(300);
+	assertEquals(checkpointer.checkpoint, 199);
+
+	checkpointer.complete(200);
+	assertEquals(checkpointer.checkpoint, 300);
+});
+
+Deno.test('dropped events hold the checkpoint back until received again', async (t) => {
+	await t.step('processed when received again', () => {
+		const { checkpointer } = createCheckpointer();
+
+		checkpointer.begin(200);
+		checkpointer.drop(200);
+		checkpointer.skip(300);
+		assertEquals(checkpointer.checkpoint, 199);
+		assertEquals(checkpointer.pending, 1);
+
+		checkpointer.begin(200);
+		assertEquals(checkpointer.checkpoint, 199);
+		checkpointer.complete(200);
+		assertEquals(checkpointer.checkpoint, 300);
+		assertEquals(checkpointer.pending, 0);
+	});
+
+	await t.step('skipped when received again', () => {
+		const { checkpointer } = createCheckpointer();
+
+		checkpointer.begin(200);
+		checkpointer.drop(200);
+		checkpointer.skip(200);
+		assertEquals(checkpointer.checkpoint, 200);
+		assertEquals(checkpointer.pending, 0);
+	});
+
+	await t.step('rewound to replay them', () => {
+		const { checkpointer } = createCheckpointer();
+
+		checkpointer.begin(200);
+		checkpointer.drop(200);
+		checkpointer.begin(300);
+		checkpointer.drop(300);
+		checkpointer.skip(400);
+
+		checkpointer.rewind();
+		assertEquals(checkpointer.checkpoint, 199);
+		assertEquals(checkpointer.pending, 0);
+
+		// Replayed events move the checkpoint forward again, one by one
+		checkpointer.begin(200);
+		checkpointer.complete(200);
+		assertEquals(checkpointer.checkpoint, 200);
+		checkpointer.skip(300);
+		checkpointer.skip(400);
+		assertEquals(checkpointer.checkpoint, 400);
+	});
+});
+
+Deno.test('the checkpoint never moves behind the persisted cursor', async () => {
+	const { checkpointer } = createCheckpointer();
+
+	checkpointer.skip(500);
+	await checkpointer.flush();
+	checkpointer.begin(300);
+	assertEquals(checkpointer.checkpoint, 500);
+});
+
+Deno.test('reconnects resume from the checkpoint, rewound by the margin', () => {
+	const { checkpointer } = createCheckpointer(2000);
+	assertEquals(checkpointer.resumeCursor(), 1500);
+
+	checkpointer.begin(2100);
+	checkpointer.skip(3000);
+	assertEquals(checkpointer.resumeCursor(), 1599);
+
+	assertEquals(createCheckpointer(200).checkpointer.resumeCursor(), 0);
+});
+
+Deno.test('the checkpoint is saved at most once per interval', async () => {
+	const { checkpointer, clock, saved } = createCheckpointer(100);
+	checkpointer.start();
+
+	checkpointer.skip(200);
+	checkpointer.skip(300);
+	await clock.tick(999);
+	assertEquals(saved, []);
+
+	await clock.tick(1);
+	assertEquals(saved, [300]);
+
+	// Nothing is written while the checkpoint has not advanced
+	checkpointer.begin(301);
+	checkpointer.skip(500);
+	await clock.tick(1000);
+	assertEquals(saved, [300]);
+
+	checkpointer.complete(301);
+	checkpointer.skip(600);
+	checkpointer.skip(700);
+	await clock.tick(1000);
+	assertEquals(saved, [300, 700]);
+
+	await checkpointer.stop();
+});
+
+Deno.test('stopping flushes a final checkpoint', async () => {
+	const { checkpointer, clock, saved } = createCheckpointer(100);
+	checkpointer.start();
+
+	checkpointer.skip(200);
+	await clock.tick(500);
+	await checkpointer.stop();
+	assertEquals(saved, [200]);
+	assertEquals(clock.pending, 0);
+
+	await clock.tick(5000);
+	assertEquals(saved, [200]);
+});
@@ -0,0 +1,187 @@
+import { assert, assertEquals, assertStringIncludes } from '@std/assert';
+import { CommitEvent } from 'jetstream';
+import { EventDispatcher } from '../src/dispatch.ts';
+import { CursorCheckpointer } from '../src/checkpoint.ts';
+import { SubjectQueue } from '../src/queue.ts';
+import { EventCache } from '../src/event_cache.ts';
+import { Telemetry } from '../src/telemetry.ts';
+import { HealthMonitor } from '../src/health.ts';
+import { settle } from './fake_clock.ts';
+
+const COLLECTION = 'app.bsky.feed.like';
+
+function createDispatcher(
+	capacity = 10,
+	rewind: () => Promise<void> = () => Promise.resolve(),
+) {
+	const checkpointer = new CursorCheckpointer(0, 60000);
+	const queue = new SubjectQueue(1, capacity);
+	const eventCache = new EventCache({ maxSize: 100, ttl: 600000 });
+	const telemetry = new Telemetry();
+	const dispatcher = new EventDispatcher(
+		checkpointer,
+		queue,
+		eventCache,
+		telemetry,
+		new HealthMonitor(),
+		rewind,
+	);
+	return { dispatcher, checkpointer, queue, telemetry };
+}
+
+function likeEvent(
+	did: string,
+	timeUs: number,
+	rkey = '3l3qo2vuowo2b',
+): CommitEvent<string> {
+	return {
+		did,
+		time_us: timeUs,
+		kind: 'commit',
+		commit: {
+			rev: '3l3qo2vutsw2b',
+			operation: 'create',
+			collection: COLLECTION,
+			rkey,
+			record: {},
+			cid: 'bafyreidfayvfuwqa7qlnopdjiqrxzs6blmoeu4rujcjtnci5beludirz2a',
+		},
+	} as CommitEvent<string>;
+}
+
+Deno.test('events from unsupported DID methods are skipped', async (t) => {
+	for (
+		const [did, method] of [
+			['did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK', 'key'],
+			['did:web:example.com:user:alice', 'web'],
+			['not-a-did', 'invalid'],
+		]
+	) {
+		await t.step(did, async () => {
+			const { dispatcher, checkpointer, queue, telemetry } = createDispatcher();
+			let prepared = false;
+
+			dispatcher.dispatch(likeEvent(did, 1000), () => {
+				prepared = true;
+				return () => Promise.resolve();
+			});
+
+			assert(!prepared);
+			assertEquals(queue.depth, 0);
+			assertEquals(checkpointer.pending, 0);
+			assertEquals(checkpointer.checkpoint, 1000);
+			assertStringIncludes(
+				await telemetry.render(),
+				`battlemaster_events_unsupported_did_total{collection="${COLLECTION}",method="${method}"} 1`,
+			);
+		});
+	}
+});
+
+Deno.test('events from supported DIDs are processed', async (t) => {
+	for (
+		const did of [
+			'did:plc:ewvi7nxzyoun6zhxrhs64oiz',
+			'did:web:example.com',
+		]
+	) {
+		await t.step(did, async () => {
+			const { dispatcher, checkpointer, queue, telemetry } = createDispatcher();
+			let processed = 0;
+
+			dispatcher.dispatch(likeEvent(did, 1000), () => () => {
+				processed++;
+				return Promise.resolve();
+			});
+			await queue.onIdle();
+
+			assertEquals(processed, 1);
+			assertEquals(checkpointer.pending, 0);
+			assertEquals(checkpointer.checkpoint, 1000);
+			assert(
+				!(await telemetry.render()).includes(
+					'battlemaster_events_unsupported_did_total{',
+				),
+			);
+		});
+	}
+});
+
+Deno.test('events that do not concern the labeler are not queued', () => {
+	const { dispatcher, checkpointer, queue } = createDispatcher();
+
+	dispatcher.dispatch(
+		likeEvent('did:plc:ewvi7nxzyoun6zhxrhs64oiz', 1000),
+		() => null,
+	);
+
+	assertEquals(queue.depth, 0);
+	assertEquals(checkpointer.pending, 0);
+	assertEquals(checkpointer.checkpoint, 1000);
+});
+
+Deno.test('replayed events are processed once', async () => {
+	const { dispatcher, queue } = createDispatcher();
+	let processed = 0;
+	const event = likeEvent('did:plc:ewvi7nxzyoun6zhxrhs64oiz', 1000);
+
+	dispatcher.dispatch(event, () => () => {
+		processed++;
+		return Promise.resolve();
+	});
+	await queue.onIdle();
+	dispatcher.dispatch(event, () => () => {
+		processed++;
+		return Promise.resolve();
+	});
+	await queue.onIdle();
+
+	assertEquals(processed, 1);
+});
+
+Deno.test('events dropped by a full queue are replayed from the checkpoint', async () => {
+	let rewinds = 0;
+	const { dispatcher, checkpointer, queue } = createDispatcher(1, () => {
+		rewinds++;
+		return Promise.resolve();
+	});
+	const processed: number[] = [];
+	let release!: () => void;
+	const blocked = new Promise<void>((resolve) => release = resolve);
+	const deliver = (timeUs: number, rkey: string) =>
+		dispatcher.dispatch(
+			likeEvent('did:plc:ewvi7nxzyoun6zhxrhs64oiz', timeUs, rkey),
+			() => async () => {
+				if (timeUs === 1000) {
+					await blocked;
+				}
+				processed.push(timeUs);
+			},
+		);
+
+	deliver(1000, '3l3qo2vuowo2a');
+	deliver(2000, '3l3qo2vuowo2b');
+	// Later events are held back too, so they do not overtake the dropped one
+	deliver(3000, '3l3qo2vuowo2c');
+	assertEquals(queue.dropped, 1);
+	assertEquals(checkpointer.pending, 3);
+	assertEquals(checkpointer.checkpoint, 999);
+	assertEquals(rewinds, 0);
+
+	release();
+	await queue.onIdle();
+	await settle();
+	assertEquals(rewinds, 1);
+	assertEquals(checkpointer.pending, 0);
+	assertEquals(checkpointer.checkpoint, 1999);
+
+	// The source delivers the events after the checkpoint again
+	deliver(2000, '3l3qo2vuowo2b');
+	await queue.onIdle();
+	deliver(3000, '3l3qo2vuowo2c');
+	await queue.onIdle();
+
+	assertEquals(processed, [1000, 2000, 3000]);
+	assertEquals(checkpointer.checkpoint, 3000);
+	assertEquals(rewinds, 1);
+});
@@ -0,0 +1,110 @@
+import { assertEquals } from '@std/assert';
+import { FileReplaySource } from '../src/event_source.ts';
+
+const LIKE = 'app.bsky.feed.like';
+const DID = 'did:plc:ewvi7nxzyoun6zhxrhs64oiz';
+const CID = 'bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm';
+
+function create(timeUs: number, commit: Record<string, unknown> = {}) {
+	return {
+		did: DID,
+		time_us: timeUs,
+		kind: 'commit',
+		commit: {
+			rev: '3l7jy2zq3z2qo',
+			operation: 'create',
+			collection: LIKE,
+			rkey: '3l7jy2zq3z2qo',
+			cid: CID,
+			record: {
+				$type: LIKE,
+				subject: { uri: 'at://did:plc:abc/app.bsky.feed.post/1', cid: CID },
+				createdAt: '2024-10-30T00:00:00.000Z',
+			},
+			...commit,
+		},
+	};
+}
+
+function remove(timeUs: number, commit: Record<string, unknown> = {}) {
+	return {
+		did: DID,
+		time_us: timeUs,
+		kind: 'commit',
+		commit: {
+			rev: '3l7jy2zq3z2qo',
+			operation: 'delete',
+			collection: LIKE,
+			rkey: '3l7jy2zq3z2qo',
+			...commit,
+		},
+	};
+}
+
+async function replay(events: unknown[]) {
+	const path = await Deno.makeTempFile({ suffix: '.ndjson' });
+	await Deno.writeTextFile(
+		path,
+		events.map((event) => JSON.stringify(event)).join('\n') +
+			'\nnot json\n',
+	);
+
+	const created: number[] = [];
+	const deleted: number[] = [];
+	const source = new FileReplaySource(path);
+	source.onCreate(LIKE, (event) => created.push(event.time_us));
+	source.onDelete(LIKE, (event) => deleted.push(event.time_us));
+	try {
+		await source.start();
+		await source.finished;
+	} finally {
+		await Deno.remove(path);
+	}
+	return { created, deleted };
+}
+
+Deno.test('FileReplaySource delivers valid recorded commits', async () => {
+	const { created, deleted } = await replay([
+		create(1),
+		remove(2),
+		{ did: DID, time_us: 3, kind: 'account', account: { active: true } },
+		create(4, { collection: 'app.bsky.feed.repost' }),
+	]);
+
+	assertEquals(created, [1]);
+	assertEquals(deleted, [2]);
+});
+
+Deno.test('FileReplaySource skips commits Jetstream would not emit', async () => {
+	const { created, deleted } = await replay([
+		create(1, { record: undefined }),
+		create(2, { rev: undefined }),
+		{ ...create(3), did: 'not a did' },
+		remove(4, { rkey: '' }),
+		create(5),
+		remove(6),
+	]);
+
+	assertEquals(created, [5]);
+	assertEquals(deleted, [6]);
+});
+
+Deno.test('FileReplaySource replays a cursor range', async () => {
+	const path = await Deno.makeTempFile({ suffix: '.ndjson' });
+	await Deno.writeTextFile(
+		path,
+		[1, 2, 3, 4].map((timeUs) => JSON.stringify(create(timeUs))).join('\n'),
+	);
+
+	const created: number[] = [];
+	const source = new FileReplaySource(path, { fromCursor: 1, toCursor: 3 });
+	source.onCreate(LIKE, (event) => created.push(event.time_us));
+	try {
+		await source.start();
+		await source.finished;
+	} finally {
+		await Deno.remove(path);
+	}
+
+	assertEquals(created, [2, 3]);
+});
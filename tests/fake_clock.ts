@@ -0,0 +1,91 @@
+/**
+ * Fake clock for tests
+ * Implements the Clock interface with virtual time: timers only fire when
+ * the test advances the clock.
+ */
+import { Clock } from '../src/clock.ts';
+
+interface Timer {
+	at: number;
+	callback: () => void;
+	interval: number | null;
+}
+
+/**
+ * A Clock whose time only moves when advanced.
+ */
+export class FakeClock implements Clock {
+	private time = 0;
+	private nextId = 1;
+	private readonly timers = new Map<number, Timer>();
+
+	now(): number {
+		return this.time;
+	}
+
+	setTimeout(callback: () => void, ms: number): number {
+		return this.schedule(callback, ms, null);
+	}
+
+	clearTimeout(id: number): void {
+		this.timers.delete(id);
+	}
+
+	setInterval(callback: () => void, ms: number): number {
+		return this.schedule(callback, ms, ms);
+	}
+
+	clearInterval(id: number): void {
+		this.timers.delete(id);
+	}
+
+	/**
+	 * Number of timers that have not fired or been cleared
+	 */
+	get pending(): number {
+		return this.timers.size;
+	}
+
+	/**
+	 * Advances time, firing due timers in order. Pending promise callbacks
+	 * run after each timer, so async work started by a timer can settle.
+	 */
+	async tick(ms: number): Promise<void> {
+		const end = this.time + ms;
+		while (true) {
+			const due = [...this.timers].filter(([, timer]) => timer.at <= end)
+				.sort(([, a], [, b]) => a.at - b.at)[0];
+			if (!due) {
+				break;
+			}
+			const [id, timer] = due;
+			this.time = timer.at;
+			if (timer.interval === null) {
+				this.timers.delete(id);
+			} else {
+				timer.at += timer.interval;
+			}
+			timer.callback();
+			await settle();
+		}
+		this.time = end;
+		await settle();
+	}
+
+	private schedule(
+		callback: () => void,
+		ms: number,
+		interval: number | null,
+	): number {
+		const id = this.nextId++;
+		this.timers.set(id, { at: this.time + ms, callback, interval });
+		return id;
+	}
+}
+
+/**
+ * Lets pending promise callbacks run
+ */
+export function settle(): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
@@ -0,0 +1,79 @@
+/**
+ * Fake Jetstream for tests
+ * Stands in for the Jetstream client, opening and closing fake sockets
+ * instead of WebSockets.
+ */
+import { EventEmitter } from 'node:events';
+import { Jetstream } from 'jetstream';
+
+/**
+ * A socket that only records whether it was closed.
+ */
+export class FakeSocket {
+	onopen: (() => void) | null = null;
+	onclose: (() => void) | null = null;
+	onerror: (() => void) | null = null;
+	onmessage: (() => void) | null = null;
+	closed = false;
+
+	close(): void {
+		this.closed = true;
+	}
+}
+
+/**
+ * A Jetstream stand-in whose connections open on the next microtask.
+ */
+export class FakeJetstream extends EventEmitter {
+	url = new URL(
+		'wss://jetstream.test/subscribe?wantedCollections=app.bsky.feed.like',
+	);
+	cursor?: number;
+	ws?: FakeSocket;
+	/** Every socket opened, in order */
+	readonly sockets: FakeSocket[] = [];
+	/** The cursor of each connection */
+	readonly connections: (number | undefined)[] = [];
+	/** Number of calls to close */
+	closed = 0;
+
+	start(): void {
+		const socket = new FakeSocket();
+		socket.onopen = () => this.emit('open');
+		socket.onclose = () => this.emit('close');
+		this.ws = socket;
+		this.sockets.push(socket);
+		this.connections.push(this.cursor);
+		queueMicrotask(() => socket.onopen?.());
+	}
+
+	close(): void {
+		this.closed++;
+		const socket = this.ws;
+		socket?.close();
+		queueMicrotask(() => socket?.onclose?.());
+	}
+
+	/**
+	 * Drops the current connection, as when the server goes away
+	 */
+	drop(): void {
+		this.ws?.onclose?.();
+	}
+
+	/**
+	 * Sockets that were neither closed nor had their handlers detached
+	 */
+	get live(): FakeSocket[] {
+		return this.sockets.filter((socket) =>
+			!socket.closed && socket.onclose !== null
+		);
+	}
+
+	/**
+	 * This fake, typed as the Jetstream client it stands in for
+	 */
+	get client(): Jetstream<string, string> {
+		return this as unknown as Jetstream<string, string>;
+	}
+}
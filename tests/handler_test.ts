@@ -0,0 +1,111 @@
+import { assertEquals } from '@std/assert';
+import { Jetstream } from 'jetstream';
+import { Handler } from '../src/handler.ts';
+import { EndpointPool } from '../src/endpoints.ts';
+import { ExponentialBackoff } from '../src/reconnect.ts';
+import { MockJetstreamServer } from '../src/mock_jetstream.ts';
+import { CursorCheckpointer } from '../src/checkpoint.ts';
+
+const LIKE = 'app.bsky.feed.like';
+
+/**
+ * A like in Jetstream's wire format
+ */
+function like(timeUs: number) {
+	return {
+		did: 'did:plc:ewvi7nxzyoun6zhxrhs64oiz',
+		time_us: timeUs,
+		kind: 'commit',
+		commit: {
+			rev: '3l7jy2zq3z2qo',
+			operation: 'create',
+			collection: LIKE,
+			rkey: '3l7jy2zq3z2qo',
+			cid: 'bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm',
+			record: {
+				$type: LIKE,
+				subject: {
+					uri:
+						'at://did:plc:7iza6de2dwap2sbkpav7c6c6/app.bsky.feed.post/3l7jy2bm7ix2r',
+					cid: 'bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm',
+				},
+				createdAt: new Date(timeUs / 1000).toISOString(),
+			},
+		},
+	};
+}
+
+/**
+ * Waits until a condition holds, failing after a few seconds
+ */
+async function waitFor(condition: () => boolean, what: string): Promise<void> {
+	const deadline = Date.now() + 5000;
+	while (!condition()) {
+		if (Date.now() > deadline) {
+			throw new Error(`Timed out waiting for ${what}`);
+		}
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+}
+
+Deno.test('Handler fails over to the next endpoint', async () => {
+	const primary = new MockJetstreamServer(0);
+	const secondary = new MockJetstreamServer(0);
+	primary.start();
+	secondary.start();
+	const urls = [primary, secondary].map((server) =>
+		`ws://127.0.0.1:${server.listeningPort}/subscribe`
+	);
+
+	const endpoints = new EndpointPool(urls, 1);
+	const jetstream = new Jetstream({
+		wantedCollections: [LIKE],
+		endpoint: endpoints.active,
+	});
+	const checkpointer = new CursorCheckpointer(0, 60000, 500);
+	const received: number[] = [];
+	jetstream.onCreate(LIKE, (event) => {
+		received.push(event.time_us);
+		checkpointer.begin(event.time_us);
+		// The event at 1500 is still being processed when the primary goes down
+		if (event.time_us !== 1500) {
+			checkpointer.complete(event.time_us);
+		}
+	});
+	const handler = new Handler(jetstream, {
+		endpoints,
+		resumeCursor: () => checkpointer.resumeCursor(),
+		reconnectPolicy: new ExponentialBackoff(10, 100),
+		shutdownTimeout: 1000,
+	});
+
+	try {
+		await handler.start();
+		await waitFor(
+			() => handler.connected && primary.clients === 1,
+			'the primary endpoint',
+		);
+		primary.publish(like(1000));
+		primary.publish(like(1500));
+		await waitFor(() => received.length === 2, 'events from the primary');
+
+		await primary.shutdown();
+		await waitFor(
+			() => handler.connected && secondary.clients === 1,
+			'the secondary endpoint',
+		);
+		assertEquals(handler.endpoint, urls[1]);
+		assertEquals(endpoints.health.map(({ healthy }) => healthy), [false, true]);
+		// The secondary resumes from the checkpoint, which the unfinished
+		// event held at 1000, less the rewind margin
+		assertEquals(secondary.connections, [500]);
+
+		secondary.publish(like(2000));
+		await waitFor(() => received.length === 3, 'an event from the secondary');
+		assertEquals(received, [1000, 1500, 2000]);
+	} finally {
+		await handler.shutdown();
+		await primary.shutdown();
+		await secondary.shutdown();
+	}
+});
@@ -0,0 +1,33 @@
+import { assertEquals } from '@std/assert';
+import { ServiceLease } from '../src/lease.ts';
+
+Deno.test('a held lease names its holder until released', async () => {
+	const kv = await Deno.openKv(':memory:');
+	const lease = new ServiceLease(kv);
+	try {
+		assertEquals(await lease.holder(), null);
+
+		await lease.acquire();
+		assertEquals((await new ServiceLease(kv).holder())?.pid, Deno.pid);
+
+		await lease.release();
+		assertEquals(await new ServiceLease(kv).holder(), null);
+	} finally {
+		await lease.release();
+		kv.close();
+	}
+});
+
+Deno.test('a lease that was not renewed has lapsed', async () => {
+	const kv = await Deno.openKv(':memory:');
+	try {
+		await kv.set(['lease', 'labeler'], {
+			pid: 1,
+			renewedAt: new Date(Date.now() - 60000).toISOString(),
+		});
+
+		assertEquals(await new ServiceLease(kv).holder(), null);
+	} finally {
+		kv.close();
+	}
+});
@@ -0,0 +1,332 @@
+import { assertEquals, assertInstanceOf, assertRejects } from '@std/assert';
+import { activityToCsv, MetricsTracker } from '../src/metrics.ts';
+import { MetricsError } from '../src/errors.ts';
+import { FakeClock } from './fake_clock.ts';
+
+const SUBJECT = 'did:plc:ewvi7nxzyoun6zhxrhs64oiz';
+
+/**
+ * Wraps a KV store so that a conflicting write lands before each atomic
+ * commit, up to the given number of times.
+ */
+function withConflicts(
+	kv: Deno.Kv,
+	conflict: () => Promise<unknown>,
+	times = Infinity,
+): Deno.Kv {
+	let remaining = times;
+	return new Proxy(kv, {
+		get(target, property) {
+			if (property === 'atomic') {
+				return () => {
+					const op = target.atomic();
+					const commit = op.commit.bind(op);
+					op.commit = async () => {
+						if (remaining > 0) {
+							remaining--;
+							await conflict();
+						}
+						return commit();
+					};
+					return op;
+				};
+			}
+			const value = Reflect.get(target, property);
+			return typeof value === 'function' ? value.bind(target) : value;
+		},
+	});
+}
+
+Deno.test('label counters', async (t) => {
+	await t.step('count concurrent updates to the same label', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const metrics = new MetricsTracker(kv);
+			await Promise.all(
+				Array.from({ length: 5 }, () => metrics.incrementLabel('warrior')),
+			);
+			await metrics.decrementLabel('warrior');
+
+			assertEquals(await metrics.getLabelCount('warrior'), 4);
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('retry on top of a conflicting write', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const metrics = new MetricsTracker(
+				withConflicts(
+					kv,
+					() => kv.set(['metrics', 'labels', 'warrior'], 7),
+					1,
+				),
+			);
+			await metrics.incrementLabel('warrior');
+
+			assertEquals(await metrics.getLabelCount('warrior'), 8);
+			const [snapshot] = await metrics.getHistory();
+			assertEquals(snapshot.counts, { warrior: 8 });
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('give up after repeated conflicts', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			let writes = 0;
+			const metrics = new MetricsTracker(
+				withConflicts(
+					kv,
+					() => kv.set(['metrics', 'labels', 'warrior'], ++writes),
+				),
+			);
+
+			const error = await assertRejects(() =>
+				metrics.incrementLabel('warrior')
+			);
+			assertInstanceOf(error, MetricsError);
+			assertEquals(writes, 10);
+			assertEquals(await metrics.getLabelCount('warrior'), 10);
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('never go below zero', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const metrics = new MetricsTracker(kv);
+			await metrics.decrementLabel('warrior');
+
+			assertEquals(await metrics.getLabelCount('warrior'), 0);
+		} finally {
+			kv.close();
+		}
+	});
+});
+
+Deno.test('journaled metrics updates', async (t) => {
+	const operations = [
+		{ val: 'warrior', neg: true },
+		{ val: 'mage', neg: false },
+	];
+
+	await t.step('count nothing until committed', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const metrics = new MetricsTracker(kv);
+			await metrics.incrementLabel('warrior');
+
+			const update = await metrics.begin(SUBJECT, operations);
+			assertEquals(await metrics.pending(), [update]);
+			assertEquals(await metrics.getLabelMetrics(), { warrior: 1 });
+
+			await metrics.commit(update);
+			assertEquals(await metrics.pending(), []);
+			assertEquals(await metrics.getLabelMetrics(), { mage: 1, warrior: 0 });
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('apply a commit only once', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const metrics = new MetricsTracker(kv);
+			const update = await metrics.begin(SUBJECT, operations);
+
+			await Promise.all([metrics.commit(update), metrics.commit(update)]);
+			await metrics.commit(update);
+
+			assertEquals(await metrics.getLabelMetrics(), { mage: 1, warrior: 0 });
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('count only the operations that were emitted', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const metrics = new MetricsTracker(kv);
+			await metrics.incrementLabel('warrior');
+
+			const update = await metrics.begin(SUBJECT, operations);
+			await metrics.commit(update, operations.slice(0, 1));
+
+			assertEquals(await metrics.pending(), []);
+			assertEquals(await metrics.getLabelMetrics(), { warrior: 0 });
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('stay journaled when the commit fails', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			let writes = 0;
+			const metrics = new MetricsTracker(
+				withConflicts(
+					kv,
+					() => kv.set(['metrics', 'labels', 'mage'], ++writes),
+				),
+			);
+			const update = await metrics.begin(SUBJECT, operations);
+
+			await assertRejects(() => metrics.commit(update));
+			assertEquals(await metrics.pending(), [update]);
+		} finally {
+			kv.close();
+		}
+	});
+});
+
+/** A FakeClock set to a UTC time */
+async function clockAt(iso: string): Promise<FakeClock> {
+	const clock = new FakeClock();
+	await clock.tick(Date.parse(iso));
+	return clock;
+}
+
+Deno.test('activity buckets', async (t) => {
+	await t.step('count activity in the hour it happened', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const clock = await clockAt('2024-09-01T10:59:59.999Z');
+			const metrics = new MetricsTracker(kv, clock);
+			await metrics.incrementLabel('warrior');
+			await clock.tick(1);
+			await metrics.incrementLabel('mage');
+
+			const hour = (start: string, end: string) =>
+				metrics.getActivity(new Date(start), new Date(end));
+			assertEquals(
+				await hour('2024-09-01T10:00:00Z', '2024-09-01T11:00:00Z'),
+				[{
+					resolution: 'hour',
+					bucket: '2024-09-01T10',
+					kind: 'apply',
+					label: 'warrior',
+					count: 1,
+				}],
+			);
+			assertEquals(
+				await hour('2024-09-01T11:00:00Z', '2024-09-01T12:00:00Z'),
+				[{
+					resolution: 'hour',
+					bucket: '2024-09-01T11',
+					kind: 'apply',
+					label: 'mage',
+					count: 1,
+				}],
+			);
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('count negations and transitions', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const clock = await clockAt('2024-09-01T10:30:00Z');
+			const metrics = new MetricsTracker(kv, clock);
+			const update = await metrics.begin(SUBJECT, [
+				{ val: 'warrior', neg: true },
+				{ val: 'mage', neg: false },
+			]);
+			await metrics.commit(update);
+
+			const records = await metrics.getActivity(
+				new Date('2024-09-01T00:00:00Z'),
+				new Date('2024-09-02T00:00:00Z'),
+			);
+			assertEquals(
+				records.map(({ kind, label, count }) => [kind, label, count]),
+				[
+					['apply', 'mage', 1],
+					['negate', 'warrior', 1],
+					['transition', 'warrior>mage', 1],
+				],
+			);
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('fold hours past the retention period into days', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const clock = await clockAt('2024-09-01T10:30:00Z');
+			const metrics = new MetricsTracker(kv, clock);
+			await metrics.incrementLabel('warrior');
+			await clock.tick(60 * 60 * 1000);
+			await metrics.incrementLabel('warrior');
+			await clock.tick(22 * 60 * 60 * 1000);
+			await metrics.incrementLabel('mage');
+
+			const activity = async () =>
+				(await metrics.getActivity(
+					new Date('2024-09-01T00:00:00Z'),
+					new Date('2024-09-03T00:00:00Z'),
+				)).map((
+					{ resolution, bucket, label, count },
+				) => [resolution, bucket, label, count]);
+
+			// Now 2024-09-02T09:30, so every hour is within retention
+			assertEquals(await metrics.rollup(1), 0);
+			await clock.tick(90 * 60 * 1000);
+
+			// Now 2024-09-02T11:00, so only the 10:00 hour is past retention
+			assertEquals(await metrics.rollup(1), 1);
+			assertEquals(await activity(), [
+				['day', '2024-09-01', 'warrior', 1],
+				['hour', '2024-09-01T11', 'warrior', 1],
+				['hour', '2024-09-02T09', 'mage', 1],
+			]);
+
+			await clock.tick(2 * 24 * 60 * 60 * 1000);
+			assertEquals(await metrics.rollup(1), 2);
+			assertEquals(await metrics.rollup(1), 0);
+			assertEquals(await activity(), [
+				['day', '2024-09-01', 'warrior', 2],
+				['day', '2024-09-02', 'mage', 1],
+			]);
+		} finally {
+			kv.close();
+		}
+	});
+});
+
+Deno.test('activity CSV', async (t) => {
+	const record = {
+		resolution: 'hour',
+		bucket: '2024-09-01T10',
+		kind: 'apply',
+		count: 3,
+	} as const;
+
+	await t.step('write a header and one row per record', () => {
+		assertEquals(
+			activityToCsv([{ ...record, label: 'warrior' }]),
+			'resolution,bucket,kind,label,count\n' +
+				'hour,2024-09-01T10,apply,warrior,3\n',
+		);
+		assertEquals(activityToCsv([]), 'resolution,bucket,kind,label,count\n');
+	});
+
+	await t.step('quote fields with delimiters, quotes or newlines', () => {
+		assertEquals(
+			activityToCsv([
+				{ ...record, label: 'a,b' },
+				{ ...record, label: 'say "hi"' },
+				{ ...record, label: 'two\nlines' },
+			]),
+			'resolution,bucket,kind,label,count\n' +
+				'hour,2024-09-01T10,apply,"a,b",3\n' +
+				'hour,2024-09-01T10,apply,"say ""hi""",3\n' +
+				'hour,2024-09-01T10,apply,"two\nlines",3\n',
+		);
+	});
+});
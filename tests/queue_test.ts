@@ -0,0 +1,124 @@
+import { assert, assertEquals } from '@std/assert';
+import { SubjectQueue } from '../src/queue.ts';
+import { settle } from './fake_clock.ts';
+
+/**
+ * A task that only finishes when released, recording when it runs
+ */
+function gatedTask(log: string[], name: string) {
+	let release!: () => void;
+	const gate = new Promise<void>((resolve) => release = resolve);
+	const task = async () => {
+		log.push(`start ${name}`);
+		await gate;
+		log.push(`end ${name}`);
+	};
+	return { task, release };
+}
+
+Deno.test('tasks for the same subject run one at a time, in order', async () => {
+	const queue = new SubjectQueue(4, 10);
+	const log: string[] = [];
+	const first = gatedTask(log, 'a1');
+	const second = gatedTask(log, 'a2');
+
+	queue.enqueue('did:a', first.task);
+	queue.enqueue('did:a', second.task);
+	await settle();
+	assertEquals(log, ['start a1']);
+	assertEquals(queue.active, 1);
+	assertEquals(queue.depth, 2);
+
+	first.release();
+	await settle();
+	assertEquals(log, ['start a1', 'end a1', 'start a2']);
+
+	second.release();
+	await queue.onIdle();
+	assertEquals(log, ['start a1', 'end a1', 'start a2', 'end a2']);
+	assertEquals(queue.depth, 0);
+});
+
+Deno.test('tasks for different subjects run concurrently up to the bound', async () => {
+	const queue = new SubjectQueue(2, 10);
+	const log: string[] = [];
+	const tasks = ['a', 'b', 'c'].map((name) => gatedTask(log, name));
+
+	tasks.forEach(({ task }, i) => queue.enqueue(`did:${i}`, task));
+	await settle();
+	assertEquals(log, ['start a', 'start b']);
+	assertEquals(queue.active, 2);
+
+	tasks[1].release();
+	await settle();
+	assertEquals(log, ['start a', 'start b', 'end b', 'start c']);
+
+	tasks[0].release();
+	tasks[2].release();
+	await queue.onIdle();
+	assertEquals(queue.active, 0);
+});
+
+Deno.test('a full queue sheds new tasks', async () => {
+	const queue = new SubjectQueue(1, 2);
+	const log: string[] = [];
+	const running = gatedTask(log, 'a');
+
+	assert(queue.enqueue('did:a', running.task));
+	assert(queue.enqueue('did:b', () => Promise.resolve()));
+	assertEquals(queue.depth, 2);
+
+	assertEquals(queue.enqueue('did:c', () => Promise.resolve()), false);
+	assertEquals(queue.enqueue('did:a', () => Promise.resolve()), false);
+	assertEquals(queue.dropped, 2);
+	assertEquals(queue.depth, 2);
+	assert(!queue.has('did:c'));
+
+	running.release();
+	await queue.onIdle();
+	assert(queue.enqueue('did:c', () => Promise.resolve()));
+	await queue.onIdle();
+	assertEquals(queue.dropped, 2);
+});
+
+Deno.test('has reports queued and running subjects', async () => {
+	const queue = new SubjectQueue(1, 10);
+	const log: string[] = [];
+	const running = gatedTask(log, 'a');
+
+	queue.enqueue('did:a', running.task);
+	queue.enqueue('did:b', () => Promise.resolve());
+	await settle();
+	assert(queue.has('did:a'));
+	assert(queue.has('did:b'));
+	assert(!queue.has('did:c'));
+
+	running.release();
+	await queue.onIdle();
+	assert(!queue.has('did:a'));
+	assert(!queue.has('did:b'));
+});
+
+Deno.test('onIdle waits for every task, including failed ones', async () => {
+	const queue = new SubjectQueue(2, 10);
+	await queue.onIdle();
+
+	const log: string[] = [];
+	queue.enqueue('did:a', () => Promise.reject(new Error('boom')));
+	queue.enqueue('did:a', () => {
+		log.push('after failure');
+		return Promise.resolve();
+	});
+	const slow = gatedTask(log, 'b');
+	queue.enqueue('did:b', slow.task);
+
+	let idle = false;
+	const waiting = queue.onIdle().then(() => idle = true);
+	await settle();
+	assertEquals(idle, false);
+
+	slow.release();
+	await waiting;
+	assertEquals(log, ['start b', 'after failure', 'end b']);
+	assertEquals(queue.depth, 0);
+});
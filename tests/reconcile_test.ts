@@ -0,0 +1,131 @@
+import { assertEquals } from '@std/assert';
+import { DatabaseSync } from 'node:sqlite';
+import { LabelerServer } from 'skyware';
+import { MetricsTracker } from '../src/metrics.ts';
+import { reconcileMetrics, recoverMetrics } from '../src/reconcile.ts';
+
+const LABELER_DID = 'did:plc:7iza6de2dwap2sbkpav7c6c6';
+const OTHER_LABELER_DID = 'did:plc:ar7c4by46qjdydhdevvrndac';
+const SUBJECT = 'did:plc:ewvi7nxzyoun6zhxrhs64oiz';
+
+/** A label database with the LabelerServer's labels table */
+function createLabelDb() {
+	const db = new DatabaseSync(':memory:');
+	db.exec(`
+		CREATE TABLE labels (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			src TEXT NOT NULL,
+			uri TEXT NOT NULL,
+			cid TEXT,
+			val TEXT NOT NULL,
+			neg BOOLEAN DEFAULT FALSE,
+			cts DATETIME NOT NULL,
+			exp DATETIME,
+			sig BLOB
+		)
+	`);
+	const insert = db.prepare(
+		'INSERT INTO labels (src, uri, val, neg, cts) VALUES (?, ?, ?, ?, ?)',
+	);
+	return {
+		db: db as unknown as LabelerServer['db'],
+		emit: (src: string, val: string, neg: boolean, cts: Date) =>
+			insert.run(src, SUBJECT, val, neg ? 1 : 0, cts.toISOString()),
+	};
+}
+
+Deno.test('metrics recovery after a crash between emitting and counting', async (t) => {
+	await t.step('count the operations emitted before the crash', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const { db, emit } = createLabelDb();
+			const metrics = new MetricsTracker(kv);
+			await metrics.incrementLabel('warrior');
+
+			await metrics.begin(SUBJECT, [
+				{ val: 'warrior', neg: true },
+				{ val: 'mage', neg: false },
+			]);
+			// The negation was emitted, the crash came before the new label
+			emit(LABELER_DID, 'warrior', true, new Date(Date.now() + 1000));
+
+			assertEquals(await recoverMetrics(db, LABELER_DID, metrics), 1);
+			assertEquals(await metrics.pending(), []);
+			assertEquals(await metrics.getLabelMetrics(), { warrior: 0 });
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('ignore labels from before the update', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const { db, emit } = createLabelDb();
+			const metrics = new MetricsTracker(kv);
+
+			emit(LABELER_DID, 'mage', false, new Date(Date.now() - 60000));
+			await metrics.begin(SUBJECT, [{ val: 'mage', neg: false }]);
+
+			assertEquals(await recoverMetrics(db, LABELER_DID, metrics), 1);
+			assertEquals(await metrics.getLabelMetrics(), {});
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('ignore labels from other labelers', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const { db, emit } = createLabelDb();
+			const metrics = new MetricsTracker(kv);
+
+			await metrics.begin(SUBJECT, [{ val: 'mage', neg: false }]);
+			emit(OTHER_LABELER_DID, 'mage', false, new Date(Date.now() + 1000));
+
+			assertEquals(await recoverMetrics(db, LABELER_DID, metrics), 1);
+			assertEquals(await metrics.getLabelMetrics(), {});
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('leave committed updates alone', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const { db, emit } = createLabelDb();
+			const metrics = new MetricsTracker(kv);
+
+			const update = await metrics.begin(SUBJECT, [
+				{ val: 'mage', neg: false },
+			]);
+			emit(LABELER_DID, 'mage', false, new Date(Date.now() + 1000));
+			await metrics.commit(update);
+
+			assertEquals(await recoverMetrics(db, LABELER_DID, metrics), 0);
+			assertEquals(await metrics.getLabelMetrics(), { mage: 1 });
+		} finally {
+			kv.close();
+		}
+	});
+});
+
+Deno.test('reconciliation counts only labels from the labeler', async () => {
+	const kv = await Deno.openKv(':memory:');
+	try {
+		const { db, emit } = createLabelDb();
+		const metrics = new MetricsTracker(kv);
+		const now = Date.now();
+		emit(LABELER_DID, 'warrior', false, new Date(now));
+		emit(OTHER_LABELER_DID, 'warrior', true, new Date(now + 1));
+		emit(OTHER_LABELER_DID, 'mage', false, new Date(now + 2));
+
+		const report = await reconcileMetrics(db, LABELER_DID, metrics, {
+			fix: true,
+		});
+		assertEquals(report.subjects, 1);
+		assertEquals(report.expected, { warrior: 1 });
+		assertEquals(await metrics.getLabelMetrics(), { warrior: 1 });
+	} finally {
+		kv.close();
+	}
+});
@@ -0,0 +1,145 @@
+import { assertEquals, assertInstanceOf } from '@std/assert';
+import {
+	CircuitBreaker,
+	createReconnectPolicy,
+	ExponentialBackoff,
+} from '../src/reconnect.ts';
+import { Handler } from '../src/handler.ts';
+import { EndpointPool } from '../src/endpoints.ts';
+import { FakeClock, settle } from './fake_clock.ts';
+import { FakeJetstream } from './fake_jetstream.ts';
+
+/** Delays for the attempts 0 to n - 1 */
+function delays(
+	policy: { nextDelay(attempt: number): number },
+	n: number,
+): number[] {
+	return Array.from({ length: n }, (_, attempt) => policy.nextDelay(attempt));
+}
+
+Deno.test('ExponentialBackoff doubles its ceiling up to the maximum', () => {
+	const highest = new ExponentialBackoff(1000, 10000, false, () => 0.999999);
+	assertEquals(delays(highest, 6), [999, 1999, 3999, 7999, 9999, 9999]);
+
+	const halfway = new ExponentialBackoff(1000, 10000, false, () => 0.5);
+	assertEquals(delays(halfway, 5), [500, 1000, 2000, 4000, 5000]);
+
+	const lowest = new ExponentialBackoff(1000, 10000, false, () => 0);
+	assertEquals(delays(lowest, 3), [0, 0, 0]);
+});
+
+Deno.test('ExponentialBackoff can retry immediately first', () => {
+	const policy = new ExponentialBackoff(1000, 10000, true, () => 0.5);
+	assertEquals(delays(policy, 4), [0, 500, 1000, 2000]);
+});
+
+Deno.test('CircuitBreaker probes at a fixed interval once open', () => {
+	const policy = new CircuitBreaker(
+		new ExponentialBackoff(1000, 10000, true, () => 0.5),
+		3,
+		60000,
+	);
+	assertEquals(delays(policy, 6), [0, 500, 1000, 60000, 60000, 60000]);
+});
+
+Deno.test('createReconnectPolicy builds the configured strategy', () => {
+	const exponential = createReconnectPolicy({
+		strategy: 'exponential',
+		baseDelay: 1000,
+		maxDelay: 4000,
+		immediateFirstRetry: false,
+	}, () => 0.5);
+	assertInstanceOf(exponential, ExponentialBackoff);
+	assertEquals(delays(exponential, 4), [500, 1000, 2000, 2000]);
+
+	const breaker = createReconnectPolicy({
+		strategy: 'circuit-breaker',
+		baseDelay: 1000,
+		maxDelay: 4000,
+		immediateFirstRetry: true,
+		failureThreshold: 2,
+		openDuration: 30000,
+	}, () => 0.5);
+	assertInstanceOf(breaker, CircuitBreaker);
+	assertEquals(delays(breaker, 4), [0, 500, 30000, 30000]);
+});
+
+Deno.test('Handler reconnects after the policy delay', async () => {
+	const clock = new FakeClock();
+	const jetstream = new FakeJetstream();
+	const handler = new Handler(jetstream.client, {
+		clock,
+		reconnectPolicy: new ExponentialBackoff(10000, 60000, false, () => 0.5),
+	});
+
+	await handler.start();
+	await settle();
+	assertEquals(handler.connected, true);
+
+	jetstream.drop();
+	await settle();
+	assertEquals(handler.connected, false);
+
+	await clock.tick(4999);
+	assertEquals(jetstream.sockets.length, 1);
+
+	await clock.tick(1);
+	assertEquals(jetstream.sockets.length, 2);
+	assertEquals(handler.connected, true);
+	// The socket of the dropped connection was disposed of, not left retrying
+	assertEquals(jetstream.sockets[0].closed, true);
+	assertEquals(jetstream.live, [jetstream.sockets[1]]);
+
+	await handler.shutdown();
+});
+
+Deno.test('Handler shutdown cancels a scheduled reconnect', async () => {
+	const clock = new FakeClock();
+	const jetstream = new FakeJetstream();
+	const handler = new Handler(jetstream.client, {
+		clock,
+		reconnectPolicy: new ExponentialBackoff(10000, 60000, false, () => 0.5),
+	});
+
+	await handler.start();
+	await settle();
+	jetstream.drop();
+	await settle();
+
+	await handler.shutdown();
+	await clock.tick(60000);
+	assertEquals(jetstream.sockets.length, 1);
+	assertEquals(clock.pending, 0);
+});
+
+Deno.test('Handler restart reconnects from the resume cursor', async () => {
+	const clock = new FakeClock();
+	const jetstream = new FakeJetstream();
+	let cursor = 1000;
+	const endpoints = new EndpointPool(
+		['wss://one.test/subscribe', 'wss://two.test/subscribe'],
+		1,
+	);
+	const handler = new Handler(jetstream.client, {
+		clock,
+		resumeCursor: () => cursor,
+		endpoints,
+	});
+
+	await handler.start();
+	await settle();
+	cursor = 2000;
+
+	await handler.restart();
+	await settle();
+	assertEquals(jetstream.connections, [1000, 2000]);
+	assertEquals(handler.connected, true);
+	assertEquals(jetstream.live, [jetstream.sockets[1]]);
+	// Not a failure, so the endpoint is kept and no reconnect is scheduled
+	assertEquals(handler.endpoint, 'wss://one.test/subscribe');
+	assertEquals(endpoints.health[0].lastFailureAt, null);
+	await clock.tick(60000);
+	assertEquals(jetstream.sockets.length, 2);
+
+	await handler.shutdown();
+});
@@ -0,0 +1,60 @@
+import { assertEquals } from '@std/assert';
+import { LabelRegistry } from '../src/registry.ts';
+import { LABELS, REMOVAL_POSTS } from '../src/labels.ts';
+
+Deno.test('seed creates the default label and removal posts', async () => {
+	const kv = await Deno.openKv(':memory:');
+	try {
+		const registry = new LabelRegistry(kv);
+
+		assertEquals(await registry.seed(), true);
+		assertEquals(await registry.seed(), false);
+
+		const entries = await registry.list();
+		assertEquals(entries.length, LABELS.length + REMOVAL_POSTS.length);
+		assertEquals(await registry.get(REMOVAL_POSTS[0].rkey), {
+			type: 'removal',
+			rkey: REMOVAL_POSTS[0].rkey,
+		});
+	} finally {
+		kv.close();
+	}
+});
+
+Deno.test('seed takes the removal post from a legacy REMOVAL_RKEY', async () => {
+	const kv = await Deno.openKv(':memory:');
+	try {
+		await kv.set(['config', 'REMOVAL_RKEY'], '3kabcdefghijk');
+		const registry = new LabelRegistry(kv);
+
+		assertEquals(await registry.seed(), true);
+
+		assertEquals(await registry.get('3kabcdefghijk'), {
+			type: 'removal',
+			rkey: '3kabcdefghijk',
+		});
+		assertEquals(await registry.get(REMOVAL_POSTS[0].rkey), null);
+		assertEquals((await kv.get(['config', 'REMOVAL_RKEY'])).value, null);
+	} finally {
+		kv.close();
+	}
+});
+
+Deno.test('seed migrates a legacy REMOVAL_RKEY into a seeded registry', async () => {
+	const kv = await Deno.openKv(':memory:');
+	try {
+		const registry = new LabelRegistry(kv);
+		await registry.seed();
+		await kv.set(['config', 'REMOVAL_RKEY'], '3kabcdefghijk');
+
+		assertEquals(await registry.seed(), false);
+
+		assertEquals(await registry.get('3kabcdefghijk'), {
+			type: 'removal',
+			rkey: '3kabcdefghijk',
+		});
+		assertEquals((await kv.get(['config', 'REMOVAL_RKEY'])).value, null);
+	} finally {
+		kv.close();
+	}
+});
@@ -0,0 +1,252 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { evaluateRules, loadRules, RuleContext } from '../src/rules_engine.ts';
+import { ConfigurationError } from '../src/errors.ts';
+import { Rule } from '../src/schemas.ts';
+
+const CATEGORIES = new Map([
+	['pvp', 'faction'],
+	['pve', 'faction'],
+	['rp', 'faction'],
+	['mentor', 'role'],
+	['newcomer', 'role'],
+]);
+
+const rules = await loadRules('');
+
+function context(
+	overrides: Partial<RuleContext> & Pick<RuleContext, 'kind'>,
+): RuleContext {
+	return {
+		collection: 'app.bsky.feed.like',
+		active: [],
+		categoryOf: (identifier) => CATEGORIES.get(identifier),
+		...overrides,
+	};
+}
+
+async function writeRules(contents: string): Promise<string> {
+	const path = await Deno.makeTempFile({ suffix: '.json' });
+	await Deno.writeTextFile(path, contents);
+	return path;
+}
+
+Deno.test('label post replaces the active label in its category', () => {
+	const decision = evaluateRules(
+		rules,
+		context({ kind: 'label-post', label: 'pve', active: ['mentor', 'pvp'] }),
+	);
+
+	assertEquals(decision.rule?.name, 'choose-label');
+	assertEquals(decision.operations, [
+		{ val: 'pvp', neg: true },
+		{ val: 'pve', neg: false },
+	]);
+	assertEquals(decision.granted, 'pve');
+});
+
+Deno.test('label post for an active label is a no-op that keeps it granted', () => {
+	const decision = evaluateRules(
+		rules,
+		context({ kind: 'label-post', label: 'pvp', active: ['pvp'] }),
+	);
+
+	assertEquals(decision.action, 'replace');
+	assertEquals(decision.operations, []);
+	assertEquals(decision.granted, 'pvp');
+});
+
+Deno.test('label post applies alongside labels of other categories', () => {
+	const decision = evaluateRules(
+		rules,
+		context({ kind: 'label-post', label: 'newcomer', active: ['pvp'] }),
+	);
+
+	assertEquals(decision.operations, [{ val: 'newcomer', neg: false }]);
+});
+
+Deno.test('removal post without a category negates every active label', () => {
+	const decision = evaluateRules(
+		rules,
+		context({ kind: 'removal-post', active: ['pvp', 'mentor'] }),
+	);
+
+	assertEquals(decision.rule?.name, 'decommission');
+	assertEquals(decision.operations, [
+		{ val: 'pvp', neg: true },
+		{ val: 'mentor', neg: true },
+	]);
+	assertEquals(decision.granted, null);
+});
+
+Deno.test('removal post with a category only negates labels in it', () => {
+	const decision = evaluateRules(
+		rules,
+		context({
+			kind: 'removal-post',
+			category: 'role',
+			active: ['pvp', 'mentor'],
+		}),
+	);
+
+	assertEquals(decision.operations, [{ val: 'mentor', neg: true }]);
+});
+
+Deno.test('grant applies only without a label in the category', () => {
+	const granted = evaluateRules(
+		rules,
+		context({ kind: 'grant', label: 'rp', active: ['mentor'] }),
+	);
+	assertEquals(granted.rule?.name, 'default-label');
+	assertEquals(granted.operations, [{ val: 'rp', neg: false }]);
+
+	const ignored = evaluateRules(
+		rules,
+		context({ kind: 'grant', label: 'rp', active: ['pvp'] }),
+	);
+	assertEquals(ignored.rule, null);
+	assertEquals(ignored.action, 'ignore');
+	assertEquals(ignored.operations, []);
+});
+
+Deno.test('granted label is limited by its registered category', () => {
+	const categories = new Map([...CATEGORIES, ['knight', 'guild']]);
+	const categoryOf = (identifier: string) => categories.get(identifier);
+
+	const granted = evaluateRules(
+		rules,
+		context({ kind: 'grant', label: 'knight', active: ['pvp'], categoryOf }),
+	);
+	assertEquals(granted.rule?.name, 'default-label');
+	assertEquals(granted.operations, [{ val: 'knight', neg: false }]);
+
+	const ignored = evaluateRules(
+		rules,
+		context({
+			kind: 'grant',
+			label: 'knight',
+			active: ['pvp', 'knight'],
+			categoryOf,
+		}),
+	);
+	assertEquals(ignored.rule, null);
+});
+
+Deno.test('a none condition takes the category of the rule label', () => {
+	const custom: Rule[] = [{
+		name: 'newcomer-role',
+		match: { kind: 'grant' },
+		conditions: [{ if: 'none', sameCategory: true }],
+		action: 'apply',
+		label: 'newcomer',
+	}];
+
+	const applied = evaluateRules(
+		custom,
+		context({ kind: 'grant', label: 'pvp', active: ['pvp'] }),
+	);
+	assertEquals(applied.operations, [{ val: 'newcomer', neg: false }]);
+
+	const ignored = evaluateRules(
+		custom,
+		context({ kind: 'grant', label: 'pvp', active: ['mentor'] }),
+	);
+	assertEquals(ignored.rule, null);
+});
+
+Deno.test('first matching rule wins and conditions select between rules', () => {
+	const custom: Rule[] = [
+		{
+			name: 'toggle-mentor',
+			match: { kind: 'label-post', label: 'mentor' },
+			conditions: [{ if: 'current', category: 'faction' }],
+			action: 'toggle',
+		},
+		{
+			name: 'fallback',
+			match: { kind: 'label-post' },
+			conditions: [],
+			action: 'apply',
+		},
+	];
+
+	const toggled = evaluateRules(
+		custom,
+		context({ kind: 'label-post', label: 'mentor', active: ['pvp', 'mentor'] }),
+	);
+	assertEquals(toggled.rule?.name, 'toggle-mentor');
+	assertEquals(toggled.operations, [{ val: 'mentor', neg: true }]);
+	assertEquals(toggled.granted, null);
+
+	const applied = evaluateRules(
+		custom,
+		context({ kind: 'label-post', label: 'mentor', active: [] }),
+	);
+	assertEquals(applied.rule?.name, 'fallback');
+	assertEquals(applied.operations, [{ val: 'mentor', neg: false }]);
+});
+
+Deno.test('loadRules reads a valid rules file', async () => {
+	const path = await writeRules(JSON.stringify([
+		{ name: 'only', match: { kind: 'grant' }, action: 'ignore' },
+	]));
+	try {
+		const loaded = await loadRules(path);
+		assertEquals(loaded, [
+			{
+				name: 'only',
+				match: { kind: 'grant' },
+				conditions: [],
+				action: 'ignore',
+			},
+		]);
+	} finally {
+		await Deno.remove(path);
+	}
+});
+
+Deno.test('loadRules rejects invalid rules files', async (t) => {
+	const cases = {
+		'malformed JSON': '[{"name": "broken"',
+		'no rules': '[]',
+		'unknown action': JSON.stringify([{ name: 'bad', action: 'delete' }]),
+		'unknown field': JSON.stringify([
+			{ name: 'bad', action: 'apply', label: 'pvp', extra: true },
+		]),
+		'invalid condition': JSON.stringify([
+			{ name: 'bad', action: 'apply', conditions: [{ if: 'not-current' }] },
+		]),
+		'ambiguous condition category': JSON.stringify([
+			{
+				name: 'bad',
+				action: 'apply',
+				conditions: [{ if: 'none', category: 'role', sameCategory: true }],
+			},
+		]),
+		'invalid label': JSON.stringify([
+			{ name: 'bad', action: 'apply', label: 'Not A Label' },
+		]),
+	};
+
+	for (const [name, contents] of Object.entries(cases)) {
+		await t.step(name, async () => {
+			const path = await writeRules(contents);
+			try {
+				await assertRejects(
+					() => loadRules(path),
+					ConfigurationError,
+					`Invalid rules in ${path}`,
+				);
+			} finally {
+				await Deno.remove(path);
+			}
+		});
+	}
+});
+
+Deno.test('loadRules rejects a missing rules file', async () => {
+	await assertRejects(
+		() => loadRules('/nonexistent/rules.json'),
+		ConfigurationError,
+		'Invalid rules in /nonexistent/rules.json',
+	);
+});
@@ -0,0 +1,209 @@
+import { assert, assertEquals } from '@std/assert';
+import { z } from 'zod';
+import {
+	AtUriSchema,
+	DidSchema,
+	LabelerDidSchema,
+	LikeRecordSchema,
+	SubjectDidSchema,
+} from '../src/schemas.ts';
+
+const PLC_DID = 'did:plc:ewvi7nxzyoun6zhxrhs64oiz';
+
+const accepts = (schema: z.ZodTypeAny, did: string) =>
+	schema.safeParse(did).success;
+
+Deno.test('subject DIDs', async (t) => {
+	await t.step('accept did:plc and did:web hostnames', () => {
+		for (
+			const did of [
+				PLC_DID,
+				'did:web:example.com',
+				'did:web:labeler.example.co.uk',
+				'did:web:xn--bcher-kva.example',
+				'did:web:localhost',
+			]
+		) {
+			assert(accepts(SubjectDidSchema, did), did);
+		}
+	});
+
+	await t.step('accept a percent-encoded port on localhost only', () => {
+		assert(accepts(SubjectDidSchema, 'did:web:localhost%3A2583'));
+		assert(!accepts(SubjectDidSchema, 'did:web:example.com%3A8080'));
+		assert(!accepts(SubjectDidSchema, 'did:web:localhost:2583'));
+		assert(!accepts(SubjectDidSchema, 'did:web:localhost%3A'));
+	});
+
+	await t.step('reject did:web paths', () => {
+		assert(!accepts(SubjectDidSchema, 'did:web:example.com:user:alice'));
+		assert(!accepts(SubjectDidSchema, 'did:web:example.com/user'));
+	});
+
+	await t.step('reject uppercase input', () => {
+		assert(!accepts(SubjectDidSchema, 'DID:PLC:ewvi7nxzyoun6zhxrhs64oiz'));
+		assert(!accepts(SubjectDidSchema, 'did:plc:EWVI7NXZYOUN6ZHXRHS64OIZ'));
+		assert(!accepts(SubjectDidSchema, 'did:web:Example.com'));
+		assert(!accepts(SubjectDidSchema, 'did:WEB:example.com'));
+	});
+
+	await t.step('reject unsupported methods', () => {
+		for (
+			const did of [
+				'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
+				'did:example:123456789abcdefghi',
+				'did:ion:EiClkZMDxPKqC9c-umQfTkR8vvZ9JPhl_xLDI9Nfk38w5w',
+			]
+		) {
+			assert(accepts(DidSchema, did), did);
+			assert(!accepts(SubjectDidSchema, did), did);
+		}
+	});
+
+	await t.step('reject malformed identifiers', () => {
+		for (
+			const did of [
+				'',
+				'did:plc:',
+				'did:plc:ewvi7nxzyoun6zhxrhs64oi',
+				'did:plc:ewvi7nxzyoun6zhxrhs64oizz',
+				'did:plc:ewvi7nxzyoun6zhxrhs64oi0',
+				'did:web:com',
+				'did:web:example.123',
+				'did:web:-example.com',
+				'did:web:example-.com',
+				'did:web:.example.com',
+				'did:web:example..com',
+				`at://${PLC_DID}`,
+			]
+		) {
+			assert(!accepts(SubjectDidSchema, did), did);
+		}
+	});
+
+	await t.step('reject over-length values', () => {
+		const label = 'a'.repeat(63);
+		assert(accepts(SubjectDidSchema, `did:web:${label}.com`));
+		assert(!accepts(SubjectDidSchema, `did:web:${label}a.com`));
+
+		const longHost = `${Array(40).fill(label).join('.')}.com`;
+		assert(`did:web:${longHost}`.length > 2048);
+		assert(!accepts(SubjectDidSchema, `did:web:${longHost}`));
+	});
+});
+
+Deno.test('labeler DIDs', async (t) => {
+	await t.step('accept did:plc and public did:web hostnames', () => {
+		assert(accepts(LabelerDidSchema, PLC_DID));
+		assert(accepts(LabelerDidSchema, 'did:web:labeler.example.com'));
+	});
+
+	await t.step('reject localhost, which AppViews cannot resolve', () => {
+		assert(!accepts(LabelerDidSchema, 'did:web:localhost'));
+		assert(!accepts(LabelerDidSchema, 'did:web:localhost%3A2583'));
+	});
+
+	await t.step('reject unsupported methods', () => {
+		assert(
+			!accepts(
+				LabelerDidSchema,
+				'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
+			),
+		);
+	});
+});
+
+Deno.test('DIDs of any method', async (t) => {
+	await t.step('accept the atproto DID syntax', () => {
+		for (
+			const did of [
+				PLC_DID,
+				'did:web:example.com',
+				'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
+				'did:method:val:two',
+				'did:m:v%3Aencoded',
+			]
+		) {
+			assert(accepts(DidSchema, did), did);
+		}
+	});
+
+	await t.step('reject invalid syntax', () => {
+		for (
+			const did of [
+				'did:METHOD:val',
+				'did:m123:val',
+				'did:method:',
+				'did:method:val:',
+				'did:method:val%',
+				'did:method:val?query',
+				'did:method:val#fragment',
+				'did::val',
+				'dId:method:val',
+			]
+		) {
+			assert(!accepts(DidSchema, did), did);
+		}
+	});
+
+	await t.step('reject values over 2048 characters', () => {
+		const prefix = 'did:example:';
+		const fits = prefix + 'a'.repeat(2048 - prefix.length);
+		assertEquals(fits.length, 2048);
+		assert(accepts(DidSchema, fits));
+		assert(!accepts(DidSchema, `${fits}a`));
+	});
+});
+
+Deno.test('AT-URIs', async (t) => {
+	await t.step('parse DID and handle authorities', () => {
+		assertEquals(
+			AtUriSchema.parse(`at://${PLC_DID}/app.bsky.feed.post/3l3qo2vuowo2b`),
+			{
+				authority: PLC_DID,
+				collection: 'app.bsky.feed.post',
+				rkey: '3l3qo2vuowo2b',
+			},
+		);
+		assertEquals(
+			AtUriSchema.parse(
+				'at://alice.bsky.social/app.bsky.feed.post/3l3qo2vuowo2b',
+			),
+			{
+				authority: 'alice.bsky.social',
+				collection: 'app.bsky.feed.post',
+				rkey: '3l3qo2vuowo2b',
+			},
+		);
+		assertEquals(AtUriSchema.parse('at://Alice.example.com'), {
+			authority: 'Alice.example.com',
+			collection: undefined,
+			rkey: undefined,
+		});
+	});
+
+	await t.step('reject invalid authorities', () => {
+		for (
+			const uri of [
+				'at://alice/app.bsky.feed.post/3l3qo2vuowo2b',
+				'at://alice.123/app.bsky.feed.post/3l3qo2vuowo2b',
+				'at://-alice.example.com/app.bsky.feed.post/3l3qo2vuowo2b',
+				`at://${'a'.repeat(64)}.com/app.bsky.feed.post/3l3qo2vuowo2b`,
+				'at://did:plc:/app.bsky.feed.post/3l3qo2vuowo2b',
+			]
+		) {
+			assert(!accepts(AtUriSchema, uri), uri);
+		}
+	});
+
+	await t.step('accept likes of posts referenced by handle', () => {
+		const like = LikeRecordSchema.parse({
+			subject: {
+				uri: 'at://alice.bsky.social/app.bsky.feed.post/3l3qo2vuowo2b',
+				cid: 'bafyreidfayvfuwqa7qlnopdjiqrxzs6blmoeu4rujcjtnci5beludirz2a',
+			},
+			createdAt: '2024-09-01T12:00:00.000Z',
+		});
+		assertEquals(like.subject.uri.authority, 'alice.bsky.social');
+	});
+});
@@ -0,0 +1,145 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { AtpAgent } from 'atproto';
+import {
+	publishServiceRecord,
+	SERVICE_COLLECTION,
+	ServiceRecord,
+} from '../src/service_record.ts';
+import { AtpError } from '../src/errors.ts';
+import { Label } from '../src/schemas.ts';
+
+const DID = 'did:plc:7iza6de2dwap2sbkpav7c6c6';
+const CID = 'bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm';
+
+const LABELS: Label[] = [
+	{
+		rkey: '3l7jy2bm7ix2r',
+		identifier: 'pvp',
+		category: 'faction',
+		definition: {
+			severity: 'inform',
+			blurs: 'none',
+			defaultSetting: 'warn',
+			adultOnly: false,
+			locales: [{
+				lang: 'en',
+				name: 'PvP',
+				description: 'Player versus player',
+			}],
+		},
+	},
+	{ rkey: '3l7jy25rx3t2s', identifier: 'pve', category: 'faction' },
+];
+
+/**
+ * A PDS serving the getRecord and putRecord XRPC methods for one record
+ */
+function mockPds() {
+	const state = {
+		record: null as ServiceRecord | null,
+		writes: 0,
+	};
+	const server = Deno.serve(
+		{ hostname: '127.0.0.1', port: 0, onListen: () => {} },
+		async (request) => {
+			const { pathname } = new URL(request.url);
+			if (pathname === '/xrpc/com.atproto.repo.getRecord') {
+				if (!state.record) {
+					return Response.json(
+						{ error: 'RecordNotFound', message: 'Could not locate record' },
+						{ status: 400 },
+					);
+				}
+				return Response.json({
+					uri: `at://${DID}/${SERVICE_COLLECTION}/self`,
+					cid: CID,
+					value: state.record,
+				});
+			}
+			if (pathname === '/xrpc/com.atproto.repo.putRecord') {
+				const body = await request.json();
+				state.record = body.record;
+				state.writes++;
+				return Response.json({
+					uri: `at://${DID}/${SERVICE_COLLECTION}/self`,
+					cid: CID,
+				});
+			}
+			return Response.json({ error: 'MethodNotImplemented' }, { status: 501 });
+		},
+	);
+	const agent = new AtpAgent({
+		service: `http://127.0.0.1:${server.addr.port}`,
+	});
+	return { agent, server, state };
+}
+
+Deno.test('publishServiceRecord creates the declaration once', async () => {
+	const { agent, server, state } = mockPds();
+	try {
+		const created = await publishServiceRecord(agent, DID, LABELS);
+		assertEquals(created.published, true);
+		assertEquals(created.changes, [
+			`+ create ${SERVICE_COLLECTION} with labels: pvp, pve`,
+		]);
+		assertEquals(state.record?.policies.labelValues, ['pvp', 'pve']);
+		assertEquals(
+			state.record?.policies.labelValueDefinitions.map((d) => d.identifier),
+			['pvp'],
+		);
+
+		const unchanged = await publishServiceRecord(agent, DID, LABELS);
+		assertEquals(unchanged.published, false);
+		assertEquals(unchanged.changes, []);
+		assertEquals(state.writes, 1);
+	} finally {
+		await server.shutdown();
+	}
+});
+
+Deno.test('publishServiceRecord only reports changes on a dry run', async () => {
+	const { agent, server, state } = mockPds();
+	try {
+		await publishServiceRecord(agent, DID, LABELS.slice(0, 1));
+
+		const result = await publishServiceRecord(agent, DID, LABELS, {
+			dryRun: true,
+		});
+		assertEquals(result.published, false);
+		assertEquals(result.changes, ['+ label pve']);
+		assertEquals(state.record?.policies.labelValues, ['pvp']);
+		assertEquals(state.writes, 1);
+	} finally {
+		await server.shutdown();
+	}
+});
+
+Deno.test('publishServiceRecord refuses definitions the lexicon rejects', async (t) => {
+	const cases: Record<string, Label> = {
+		'identifier with digits': { ...LABELS[0], identifier: 'pvp2' },
+		'identifier over 100 characters': {
+			...LABELS[0],
+			identifier: 'a'.repeat(101),
+		},
+		'definition without locales': {
+			...LABELS[0],
+			definition: { ...LABELS[0].definition!, locales: [] },
+		},
+	};
+
+	for (const [name, label] of Object.entries(cases)) {
+		await t.step(name, async () => {
+			const { agent, server, state } = mockPds();
+			try {
+				await assertRejects(
+					() => publishServiceRecord(agent, DID, [label]),
+					AtpError,
+					'Refusing to publish',
+				);
+				assertEquals(state.writes, 0);
+			} finally {
+				await server.shutdown();
+			}
+		});
+	}
+});
@@ -0,0 +1,147 @@
+import { assertEquals } from '@std/assert';
+import {
+	ShadowDecision,
+	ShadowJournal,
+	summarizeDecisions,
+} from '../src/shadow.ts';
+import { activeLabels } from '../src/reconcile.ts';
+
+const ALICE = 'did:plc:ewvi7nxzyoun6zhxrhs64oiz';
+const BOB = 'did:plc:ar7c4by46qjdydhdevvrndac';
+
+function decision(overrides: Partial<ShadowDecision>): ShadowDecision {
+	return {
+		at: '2024-09-01T12:00:00.000Z',
+		subject: ALICE,
+		collection: 'app.bsky.feed.like',
+		event: 'trigger',
+		rule: 'default-label',
+		outcome: 'applied',
+		operations: [{ val: 'warrior', neg: false }],
+		...overrides,
+	};
+}
+
+Deno.test('summarizeDecisions', async (t) => {
+	await t.step('report no time range for no decisions', () => {
+		assertEquals(summarizeDecisions([]), {
+			from: null,
+			to: null,
+			decisions: 0,
+			subjects: 0,
+			outcomes: {},
+			rules: {},
+			labels: {},
+		});
+	});
+
+	await t.step('count outcomes, rules and label operations', () => {
+		const report = summarizeDecisions([
+			decision({}),
+			decision({
+				at: '2024-09-01T12:05:00.000Z',
+				rule: 'transition',
+				operations: [
+					{ val: 'warrior', neg: true },
+					{ val: 'mage', neg: false },
+				],
+			}),
+			decision({
+				at: '2024-09-01T12:10:00.000Z',
+				subject: BOB,
+				rule: null,
+				outcome: 'no-op',
+				operations: [],
+			}),
+		]);
+
+		assertEquals(report, {
+			from: '2024-09-01T12:00:00.000Z',
+			to: '2024-09-01T12:10:00.000Z',
+			decisions: 3,
+			// Bob's decision changed nothing, so only Alice counts
+			subjects: 1,
+			outcomes: { applied: 2, 'no-op': 1 },
+			rules: { 'default-label': 1, transition: 1, '(none)': 1 },
+			labels: {
+				warrior: { applied: 1, negated: 1 },
+				mage: { applied: 1, negated: 0 },
+			},
+		});
+	});
+});
+
+Deno.test('ShadowJournal', async (t) => {
+	await t.step('overlay journaled labels on the label database', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const journal = new ShadowJournal(kv);
+			await journal.recordLabels(ALICE, [
+				{ val: 'warrior', neg: true },
+				{ val: 'mage', neg: false },
+			]);
+			await journal.recordLabels(BOB, [{ val: 'rogue', neg: false }]);
+
+			const rows = await journal.overlay(ALICE, [
+				{ uri: ALICE, val: 'warrior', neg: 0 },
+			]);
+			assertEquals(rows, [
+				{ uri: ALICE, val: 'warrior', neg: 0 },
+				{ uri: ALICE, val: 'warrior', neg: true },
+				{ uri: ALICE, val: 'mage', neg: false },
+			]);
+			assertEquals(activeLabels(rows), ['mage']);
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('report the journaled decisions in order', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const journal = new ShadowJournal(kv);
+			await journal.recordDecision(decision({}));
+			await journal.recordDecision(
+				decision({
+					at: '2024-09-01T12:05:00.000Z',
+					subject: BOB,
+					event: 'deletion',
+					rule: null,
+					outcome: 'negated',
+					operations: [{ val: 'warrior', neg: true }],
+				}),
+			);
+
+			const report = await journal.report();
+			assertEquals(report.from, '2024-09-01T12:00:00.000Z');
+			assertEquals(report.to, '2024-09-01T12:05:00.000Z');
+			assertEquals(report.subjects, 2);
+			assertEquals(report.outcomes, { applied: 1, negated: 1 });
+			assertEquals(report.labels, {
+				warrior: { applied: 1, negated: 1 },
+			});
+		} finally {
+			kv.close();
+		}
+	});
+
+	await t.step('clear only shadow mode state', async () => {
+		const kv = await Deno.openKv(':memory:');
+		try {
+			const journal = new ShadowJournal(kv);
+			await kv.set(['metrics', 'labels', 'warrior'], 1);
+			await journal.recordLabels(ALICE, [{ val: 'warrior', neg: false }]);
+			await journal.recordDecision(decision({}));
+
+			assertEquals(await journal.clear(), 2);
+			assertEquals((await journal.report()).decisions, 0);
+			assertEquals(await journal.overlay(ALICE, []), []);
+			assertEquals(
+				(await kv.get(['metrics', 'labels', 'warrior'])).value,
+				1,
+			);
+		} finally {
+			kv.close();
+		}
+	});
+});
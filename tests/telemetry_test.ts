@@ -0,0 +1,77 @@
+import { assertEquals, assertStringIncludes } from '@std/assert';
+import { Telemetry, TelemetryServer } from '../src/telemetry.ts';
+import { HealthMonitor } from '../src/health.ts';
+
+Deno.test('TelemetryServer serves metrics and health probes', async (t) => {
+	const telemetry = new Telemetry();
+	const health = new HealthMonitor();
+	health.register({ name: 'kv', liveness: true, check: () => ({ ok: true }) });
+	health.register({
+		name: 'jetstream',
+		liveness: false,
+		check: () => ({ ok: false, detail: 'disconnected' }),
+	});
+	const server = new TelemetryServer(telemetry, health, 0);
+	server.start();
+	const url = `http://127.0.0.1:${server.listeningPort}`;
+
+	try {
+		await t.step('/metrics', async () => {
+			telemetry.eventsReceived.inc({
+				collection: 'app.bsky.feed.like',
+				operation: 'create',
+			});
+			telemetry.eventsReceived.inc({
+				collection: 'app.bsky.feed.like',
+				operation: 'create',
+			});
+
+			const response = await fetch(`${url}/metrics`);
+			assertEquals(response.status, 200);
+			assertEquals(
+				response.headers.get('content-type'),
+				'text/plain; version=0.0.4',
+			);
+			const body = await response.text();
+			assertStringIncludes(
+				body,
+				'# TYPE battlemaster_events_received_total counter',
+			);
+			assertStringIncludes(
+				body,
+				'battlemaster_events_received_total{collection="app.bsky.feed.like",operation="create"} 2',
+			);
+		});
+
+		await t.step('/healthz only runs liveness checks', async () => {
+			const response = await fetch(`${url}/healthz`);
+			assertEquals(response.status, 200);
+			assertEquals(await response.json(), {
+				status: 'ok',
+				components: { kv: { ok: true } },
+			});
+		});
+
+		await t.step('/readyz runs every check', async () => {
+			const response = await fetch(`${url}/readyz`);
+			assertEquals(response.status, 503);
+			assertEquals(await response.json(), {
+				status: 'degraded',
+				components: {
+					kv: { ok: true },
+					jetstream: { ok: false, detail: 'disconnected' },
+				},
+			});
+		});
+
+		await t.step('unknown paths', async () => {
+			const response = await fetch(`${url}/unknown`);
+			assertEquals(response.status, 404);
+			await response.body?.cancel();
+		});
+	} finally {
+		await server.shutdown();
+	}
+
+	assertEquals(server.listeningPort, null);
+});
@@ -0,0 +1,90 @@
+import { assertEquals } from '@std/assert';
+import { StallWatchdog } from '../src/watchdog.ts';
+import { Handler } from '../src/handler.ts';
+import { EndpointPool } from '../src/endpoints.ts';
+import { FakeClock, settle } from './fake_clock.ts';
+import { FakeJetstream } from './fake_jetstream.ts';
+
+Deno.test('StallWatchdog fires once the idle time reaches the timeout', async () => {
+	const clock = new FakeClock();
+	const stalls: number[] = [];
+	const watchdog = new StallWatchdog(60000, (idle) => stalls.push(idle), clock);
+	watchdog.start();
+
+	await clock.tick(45000);
+	assertEquals(stalls, []);
+
+	await clock.tick(15000);
+	assertEquals(stalls, [60000]);
+
+	// The idle time starts over after firing
+	await clock.tick(45000);
+	assertEquals(stalls, [60000]);
+
+	watchdog.stop();
+	assertEquals(clock.pending, 0);
+});
+
+Deno.test('StallWatchdog activity resets the idle time', async () => {
+	const clock = new FakeClock();
+	const stalls: number[] = [];
+	const watchdog = new StallWatchdog(60000, (idle) => stalls.push(idle), clock);
+	watchdog.start();
+
+	for (let i = 0; i < 5; i++) {
+		await clock.tick(30000);
+		watchdog.touch();
+	}
+	assertEquals(stalls, []);
+	assertEquals(watchdog.idle, 0);
+
+	watchdog.stop();
+	await clock.tick(120000);
+	assertEquals(stalls, []);
+});
+
+Deno.test('a stalled connection reconnects from the checkpoint', async () => {
+	const clock = new FakeClock();
+	const jetstream = new FakeJetstream();
+	let checkpoint = 1000;
+	const endpoints = new EndpointPool(
+		['wss://one.test/subscribe', 'wss://two.test/subscribe'],
+		1,
+		300000,
+		() => clock.now(),
+	);
+	const handler = new Handler(jetstream.client, {
+		stallTimeout: 60000,
+		clock,
+		resumeCursor: () => checkpoint,
+		endpoints,
+	});
+
+	await handler.start();
+	await settle();
+	assertEquals(handler.connected, true);
+	assertEquals(jetstream.connections, [1000]);
+
+	// Events keep the connection alive
+	await clock.tick(45000);
+	jetstream.emit('commit', {});
+	checkpoint = 2000;
+	await clock.tick(45000);
+	assertEquals(jetstream.closed, 0);
+
+	// A quiet connection is closed and reopened from the checkpoint at the
+	// first check after the timeout
+	await clock.tick(20000);
+	assertEquals(jetstream.closed, 1);
+	assertEquals(jetstream.connections, [1000, 2000]);
+	assertEquals(jetstream.live, [jetstream.sockets[1]]);
+	assertEquals(handler.connected, true);
+	// The endpoint was quiet, not failing, so it is kept
+	assertEquals(handler.endpoint, 'wss://one.test/subscribe');
+	assertEquals(endpoints.health[0].lastFailureAt, null);
+
+	await handler.shutdown();
+	await clock.tick(120000);
+	assertEquals(jetstream.connections, [1000, 2000]);
+	assertEquals(clock.pending, 0);
+});